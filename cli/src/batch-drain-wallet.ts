@@ -1,11 +1,16 @@
 import fs from 'fs';
 import path from 'path';
 import { parse } from 'csv-parse/sync';
+import { Connection, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import { logger } from './utils';
-import { executeDrainWallet } from './drain-wallet';
+import { executeDrainWallet, validateKeepSol } from './drain-wallet';
 import { readWalletsFromCSV, WalletInfo } from './utils.wallet';
 import { createObjectCsvWriter } from 'csv-writer';
 import bs58 from 'bs58';
+import { runSendQueue, SendQueueOptions } from './utils.queue';
+import { estimateTransactionFeeLamports, TransactionOptions } from './utils.transaction';
+import { ConfirmOptions, confirmAction, formatFeeEstimate } from './utils.confirm';
+import { AddressListOptions, BlockedRow, getBlockReason, loadAddressScreen, saveBlockedRows } from './utils.address-list';
 
 /**
  * Parse destination addresses from CSV file
@@ -68,7 +73,7 @@ export const executeBatchDrainWallet = async (
     excludeTokens?: string[];
     minBalance?: number;
     indices?: number[];  // 新增: 要处理的特定索引数组
-  } = {}
+  } & SendQueueOptions & TransactionOptions & AddressListOptions & ConfirmOptions = {}
 ): Promise<void> => {
   try {
     // 1. 读取源钱包信息（带私钥）
@@ -90,6 +95,20 @@ export const executeBatchDrainWallet = async (
     // 使用两个列表中较小的长度作为操作数
     const operationCount = Math.min(sourceWallets.length, destinationAddresses.length);
     
+    // 检查目标地址是否在拒绝列表中或不在允许列表中
+    const addressScreen = loadAddressScreen(options);
+    const blockedRows: BlockedRow[] = [];
+    if (addressScreen) {
+      for (let i = 0; i < operationCount; i++) {
+        const reason = getBlockReason(addressScreen, destinationAddresses[i]);
+        if (reason) {
+          logger.warn(`Destination ${destinationAddresses[i]} of index ${i} is blocked (${reason}), skipping`);
+          blockedRows.push({ row: i + 1, address: destinationAddresses[i], reason });
+        }
+      }
+    }
+    const blockedIndices = new Set(blockedRows.map(blocked => blocked.row - 1));
+    
     // 如果指定了索引，则只处理这些索引
     const indicesToProcess: number[] = options.indices || [];
     
@@ -130,7 +149,7 @@ export const executeBatchDrainWallet = async (
     
     // 创建单一批处理日志文件
     const batchLogPath = path.join(outDir, `batch_drain_${timestamp}.csv`);
-    const batchLogHeader = 'index,from_address,to_address,sol_amount,tokens_transferred,status,timestamp,message\n';
+    const batchLogHeader = 'index,from_address,to_address,sol_amount,tokens_transferred,fees_paid,status,timestamp,message\n';
     fs.writeFileSync(batchLogPath, batchLogHeader);
     logger.info(`Batch log file created at: ${batchLogPath}`);
     
@@ -141,18 +160,57 @@ export const executeBatchDrainWallet = async (
       toAddress: string;
       solAmount: number;
       tokensTransferred: number;
+      feesPaid: number;
       status: 'success' | 'failed';
       timestamp: string;
       message?: string;
     }> = [];
     
+    // 如果指定了索引列表，则只处理这些索引
+    const operationIndices: number[] = [];
     for (let i = 0; i < operationCount; i++) {
-      // 如果指定了索引列表，则只处理这些索引
       if (indicesToProcess.length > 0 && !indicesToProcess.includes(i)) {
         logger.info(`Skipping index ${i} as it's not in the specified indices list`);
         continue;
       }
-      
+      if (blockedIndices.has(i)) {
+        continue;
+      }
+      operationIndices.push(i);
+    }
+    if (blockedRows.length > 0) {
+      await saveBlockedRows(destinationAddressesPath, blockedRows);
+    }
+    
+    const connection = new Connection(rpcUrl || 'https://api.mainnet-beta.solana.com', 'confirmed');
+    
+    // 使用费用支付者时，保留的SOL必须为0或达到免租金最低额度
+    if (options.feePayer) {
+      try {
+        await validateKeepSol(connection, options.keepSol || 0);
+      } catch (error) {
+        logger.error(error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+    }
+    
+    // 确认一次整个批处理，单个钱包的排空不再逐个询问
+    if (!options.dryRun && operationIndices.length > 0) {
+      const destinations = new Set(operationIndices.map(i => destinationAddresses[i]));
+      const confirmed = await confirmAction(connection, {
+        action: `drain ${operationIndices.length} wallets`,
+        sender: `${operationIndices.length} wallets`,
+        recipientCount: destinations.size,
+        totals: [`all SOL and tokens of ${operationIndices.length} wallets${options.keepSol ? ` (keeping ${options.keepSol} SOL in each)` : ''}`],
+        estimatedFee: `${formatFeeEstimate(operationIndices.length * estimateTransactionFeeLamports(2, options), options)} for the SOL transfers, plus about 2 transactions per token account`,
+        rows: operationIndices.map(i => `Index ${i}: ${sourceWallets[i].address} to ${destinationAddresses[i]}`),
+      }, options.yes);
+      if (!confirmed) {
+        process.exit(1);
+      }
+    }
+    
+    await runSendQueue(rpcUrl || '', operationIndices, options, async (i) => {
       const sourceWallet = sourceWallets[i];
       const destinationAddress = destinationAddresses[i];
       
@@ -178,25 +236,27 @@ export const executeBatchDrainWallet = async (
           toAddress: destinationAddress,
           solAmount: 0,
           tokensTransferred: 0,
+          feesPaid: 0,
           status: 'failed',
           timestamp: new Date().toISOString(),
           message: failureReason
         });
         
         failCount++;
-        continue;
+        return;
       }
       
       try {
         // 执行单个drain-wallet操作
         logger.info(`Draining wallet ${sourceWallet.address} to ${destinationAddress}...`);
         
+        // The batch was confirmed as a whole above, so single drains do not ask again
+        const adjustedOptions = { ...options, yes: true };
         // For batch operations, we recommend slightly higher keepSol for safety if none was specified
-        const adjustedOptions = { ...options };
         if (!options.keepSol && options.keepSol !== 0) {
           adjustedOptions.keepSol = 0.001; // Default keep 0.001 SOL for safety in batch operations
           logger.info(`No keepSol specified, using default of ${adjustedOptions.keepSol} SOL for batch operations`);
-        } else if (options.keepSol < 0.001 && !options.dryRun) {
+        } else if (options.keepSol < 0.001 && !options.dryRun && !options.feePayer) {
           logger.warn(`Low keepSol value (${options.keepSol} SOL) may lead to failures due to transaction fees and rent requirements`);
         }
         
@@ -218,6 +278,7 @@ export const executeBatchDrainWallet = async (
           toAddress: destinationAddress,
           solAmount: result.transferredAssets.sol,
           tokensTransferred: result.transferredAssets.tokens.length,
+          feesPaid: result.feesPaid / LAMPORTS_PER_SOL,
           status: 'success',
           timestamp: new Date().toISOString()
         });
@@ -252,6 +313,7 @@ export const executeBatchDrainWallet = async (
           toAddress: destinationAddress,
           solAmount: 0,
           tokensTransferred: 0,
+          feesPaid: 0,
           status: 'failed',
           timestamp: new Date().toISOString(),
           message: failureReason
@@ -259,7 +321,11 @@ export const executeBatchDrainWallet = async (
         
         failCount++;
       }
-    }
+    });
+    
+    // 并发执行时结果顺序不固定，按索引排序
+    batchResults.sort((a, b) => a.index - b.index);
+    failedOps.sort((a, b) => a.index - b.index);
     
     // 打印摘要
     logger.info('\n' + '='.repeat(50));
@@ -268,11 +334,14 @@ export const executeBatchDrainWallet = async (
     logger.info(`Total operations: ${operationCount}`);
     logger.info(`Successful: ${successCount}`);
     logger.info(`Failed: ${failCount}`);
+    if (blockedRows.length > 0) {
+      logger.info(`Blocked: ${blockedRows.length}`);
+    }
     logger.info('='.repeat(50));
     
     // 将所有批处理结果写入CSV文件
     for (const result of batchResults) {
-      const csvLine = `${result.index},${result.fromAddress},${result.toAddress},${result.solAmount},${result.tokensTransferred},${result.status},${result.timestamp},"${result.message || ''}"\n`;
+      const csvLine = `${result.index},${result.fromAddress},${result.toAddress},${result.solAmount},${result.tokensTransferred},${result.feesPaid},${result.status},${result.timestamp},"${result.message || ''}"\n`;
       fs.appendFileSync(batchLogPath, csvLine);
     }
     
@@ -1,31 +1,82 @@
 import fs from 'fs';
 import path from 'path';
-import { Connection, PublicKey, Transaction, SystemProgram, sendAndConfirmTransaction, LAMPORTS_PER_SOL, Keypair } from '@solana/web3.js';
+import { Connection, PublicKey, Transaction, SystemProgram, LAMPORTS_PER_SOL, Keypair } from '@solana/web3.js';
 import { createObjectCsvWriter } from 'csv-writer';
 import bs58 from 'bs58';
 import { logger } from './utils';
 import { readWalletsFromCSV, WalletInfo } from './utils.wallet';
-import { convertSolToLamports } from './utils.token';
+import {
+  AmountUnit,
+  convertSolToLamports,
+  convertToRawAmount,
+  formatRawAmount,
+  getTokenProgramInfo,
+  isValidAmount,
+  getTransferBlocker,
+  planTokenTransfers,
+  RecipientKind,
+  TokenProgramInfo,
+  TokenTransferParams,
+  TransferFeeMode,
+} from './utils.token';
+import { runSendQueue, SendQueueOptions } from './utils.queue';
+import {
+  createMemoInstruction,
+  estimateTransactionFeeLamports,
+  isValidMemo,
+  sendTransaction,
+  SendTransactionResult,
+  TransactionOptions,
+} from './utils.transaction';
+import {
+  BuildOnlyOptions,
+  OfflineBroadcastHooks,
+  OfflineRow,
+  OfflineTransactionRequest,
+  writeUnsignedTransactions,
+} from './utils.offline';
+import { computeIntentHash } from './utils.journal';
+import { ConfirmOptions, confirmAction, formatFeeEstimate } from './utils.confirm';
+import { checkSpendingLimits, SpendingLimitOptions } from './utils.limits';
+import { AddressListOptions, BlockedRow, getBlockReason, loadAddressScreen, saveBlockedRows } from './utils.address-list';
 
 // Interface for transfer instruction from CSV
 interface TransferInstruction {
   from: string;
   to: string;
-  amount: number;
+  amount: string;
+  memo?: string;
+  row: number;  // 1-based data row of the transfers file, not counting a header line
 }
 
 // Interface for transfer result
 interface TransferResult {
   from: string;
   to: string;
-  amount: number;
+  amount: string;
   token_mint?: string;
+  memo?: string;
   transaction_signature?: string;
+  priority_fee?: number;
+  fee_lamports?: number;
   status: 'success' | 'failed';
   error?: string;
   timestamp: string;
 }
 
+// Spending limits of many-to-many runs, which keep no record of earlier runs to count cumulative payments
+type BatchSpendingLimitOptions = Omit<SpendingLimitOptions, 'maxCumulative'>;
+
+// Interface for options of many-to-many transfer runs
+export interface BatchTransferOptions extends SendQueueOptions, TransactionOptions, ConfirmOptions, BuildOnlyOptions, AddressListOptions, BatchSpendingLimitOptions {
+  amountUnit?: AmountUnit;  // Unit of the amount column, UI amounts by default
+  memo?: string;            // Memo for rows without a memo column value
+  transferFeeMode?: TransferFeeMode;  // For mints with a transfer fee, gross-up by default
+  expectDecimals?: number;  // Refuse to run unless the mint has these decimals
+  recipientKind?: RecipientKind;  // How recipient addresses of token transfers are read, auto by default
+  allowPdaRecipients?: boolean;   // Pay off-curve (PDA) wallets instead of refusing them
+}
+
 // Parse transfer instructions from CSV
 const parseTransferInstructions = (filePath: string): TransferInstruction[] => {
   try {
@@ -50,15 +101,21 @@ const parseTransferInstructions = (filePath: string): TransferInstruction[] => {
         continue;
       }
       
-      const [from, to, amountStr] = parts;
-      const amount = parseFloat(amountStr);
+      const [from, to, amount] = parts;
+      // The memo is the last column, so it may contain commas
+      const memo = parts.slice(3).join(',').trim();
       
-      if (isNaN(amount) || amount <= 0) {
-        logger.warn(`Warning: Invalid amount on line ${i + 1}: ${amountStr}`);
+      // Amounts stay strings so they are converted to base units without floating-point loss
+      if (!isValidAmount(amount)) {
+        logger.warn(`Warning: Invalid amount on line ${i + 1}: ${amount}`);
+        continue;
+      }
+      if (!isValidMemo(memo)) {
+        logger.warn(`Warning: Memo longer than the limit on line ${i + 1}`);
         continue;
       }
       
-      instructions.push({ from, to, amount });
+      instructions.push({ from, to, amount, ...(memo ? { memo } : {}), row: i - startIndex + 1 });
     }
     
     return instructions;
@@ -67,6 +124,49 @@ const parseTransferInstructions = (filePath: string): TransferInstruction[] => {
   }
 };
 
+// Load transfer instructions, giving rows without a memo the default memo
+const loadTransferInstructions = (transfersPath: string, defaultMemo?: string): TransferInstruction[] => {
+  logger.info(`Loading transfer instructions from ${transfersPath}`);
+  const instructions = parseTransferInstructions(transfersPath);
+  if (defaultMemo) {
+    instructions.forEach(instruction => {
+      instruction.memo = instruction.memo || defaultMemo;
+    });
+  }
+  logger.info(`Loaded ${instructions.length} transfer instructions`);
+  return instructions;
+};
+
+// Check the recipients of the transfer instructions against the address lists and save the blocked ones
+// Returns the indexes of the blocked instructions
+const screenTransferInstructions = async (
+  transfersPath: string,
+  instructions: TransferInstruction[],
+  mintAddress: string | undefined,
+  options: AddressListOptions
+): Promise<Set<number>> => {
+  const screen = loadAddressScreen(options);
+  if (!screen) {
+    return new Set();
+  }
+
+  const blockedRows: BlockedRow[] = [];
+  const blocked = new Set<number>();
+  instructions.forEach((instruction, i) => {
+    const reason = getBlockReason(screen, instruction.to);
+    if (reason) {
+      logger.warn(`Row ${instruction.row} to ${instruction.to} is blocked (${reason}), skipping`);
+      blockedRows.push({ row: instruction.row, address: instruction.to, amount: instruction.amount, mint: mintAddress, reason });
+      blocked.add(i);
+    }
+  });
+  if (blockedRows.length > 0) {
+    await saveBlockedRows(transfersPath, blockedRows);
+  }
+
+  return blocked;
+};
+
 // Create keypair from base58 private key
 const createKeypairFromBase58 = (base58Key: string): Keypair => {
   try {
@@ -82,11 +182,14 @@ const executeSolTransfer = async (
   connection: Connection,
   fromKeypair: Keypair,
   toAddress: string,
-  amount: number
-): Promise<string> => {
-  console.log(`executeSolTransfer Transferring ${amount} SOL to ${toAddress}`);
+  amount: string,
+  amountUnit: AmountUnit | undefined,
+  memo: string | undefined,
+  transactionOptions: TransactionOptions
+): Promise<SendTransactionResult> => {
+  console.log(`executeSolTransfer Transferring ${amount} ${amountUnit === 'raw' ? 'lamports' : 'SOL'} to ${toAddress}`);
   const toPublicKey = new PublicKey(toAddress);
-  const lamports = convertSolToLamports(amount);
+  const lamports = convertSolToLamports(amount, amountUnit);
   const transaction = new Transaction().add(
     SystemProgram.transfer({
       fromPubkey: fromKeypair.publicKey,
@@ -94,9 +197,11 @@ const executeSolTransfer = async (
       lamports,
     })
   );
+  if (memo) {
+    transaction.add(createMemoInstruction(memo));
+  }
 
-  const signature = await sendAndConfirmTransaction(connection, transaction, [fromKeypair]);
-  return signature;
+  return sendTransaction(connection, transaction, [fromKeypair], transactionOptions);
 };
 
 // Execute token transfer using best practice atomic approach
@@ -104,24 +209,30 @@ const executeTokenTransfer = async (
   connection: Connection,
   fromKeypair: Keypair,
   toAddress: string,
-  amount: number,
-  mintAddress: string
-): Promise<string> => {
+  amount: string,
+  amountUnit: AmountUnit | undefined,
+  memo: string | undefined,
+  mintAddress: string,
+  tokenOptions: Pick<TokenTransferParams, 'transferFeeMode' | 'recipientKind' | 'allowPdaRecipients'>,
+  transactionOptions: TransactionOptions
+): Promise<SendTransactionResult> => {
   const { executeAtomicTokenTransfer } = await import('./utils.token');
   
-  const result = await executeAtomicTokenTransfer({
+  return executeAtomicTokenTransfer({
     connection,
     fromKeypair,
     toAddress,
     mintAddress,
-    amount
+    amount,
+    amountUnit,
+    memo,
+    ...tokenOptions,
+    transactionOptions
   });
-  
-  return result.signature;
 };
 
 // Print results table to console
-const printResultsTable = (results: TransferResult[], mintAddress?: string) => {
+const printResultsTable = (results: TransferResult[], mintAddress?: string, amountUnit?: AmountUnit) => {
   console.log('\n' + '='.repeat(120));
   console.log('BATCH TRANSFER RESULTS');
   console.log('='.repeat(120));
@@ -147,7 +258,7 @@ const printResultsTable = (results: TransferResult[], mintAddress?: string) => {
     const values = [
       result.from.substring(0, 18) + '...',
       result.to.substring(0, 18) + '...',
-      result.amount.toString(),
+      result.amount,
       result.status,
       result.status === 'success' 
         ? (result.transaction_signature?.substring(0, 45) + '...' || 'N/A')
@@ -172,10 +283,11 @@ const printResultsTable = (results: TransferResult[], mintAddress?: string) => {
   const failedCount = results.filter(r => r.status === 'failed').length;
   const totalAmount = results
     .filter(r => r.status === 'success')
-    .reduce((sum, r) => sum + r.amount, 0);
+    .reduce((sum, r) => sum + parseFloat(r.amount), 0);
+  const unit = amountUnit === 'raw' ? 'base units' : (mintAddress ? 'tokens' : 'SOL');
   
   console.log(`Summary: ${successCount} successful, ${failedCount} failed transfers`);
-  console.log(`Total amount transferred: ${totalAmount} ${mintAddress ? 'tokens' : 'SOL'}`);
+  console.log(`Total amount transferred: ${totalAmount} ${unit}`);
   console.log('='.repeat(120) + '\n');
 };
 
@@ -196,7 +308,10 @@ const saveResultsToCSV = async (
       { id: 'to', title: 'To' },
       { id: 'amount', title: 'Amount' },
       { id: 'token_mint', title: 'Token Mint' },
+      { id: 'memo', title: 'Memo' },
       { id: 'transaction_signature', title: 'Transaction Signature' },
+      { id: 'priority_fee', title: 'Priority Fee (micro-lamports/CU)' },
+      { id: 'fee_lamports', title: 'Fee (lamports)' },
       { id: 'status', title: 'Status' },
       { id: 'error', title: 'Error' },
       { id: 'timestamp', title: 'Timestamp' },
@@ -215,44 +330,260 @@ const saveResultsToCSV = async (
   }
 };
 
+// Hash identifying what a transfer pays, checked by ff broadcast against the transfers file of the run
+const getTransferIntentHash = (instruction: TransferInstruction, mintAddress?: string, amountUnit: AmountUnit = 'ui'): string => {
+  const { from, to, amount } = instruction;
+  return computeIntentHash(mintAddress || 'SOL', from, to, amount, amountUnit);
+};
+
+// Generate the results file path of a transfers file
+const getResultsPath = (transfersPath: string, mintAddress?: string): string => {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
+  const transfersBaseName = path.basename(transfersPath, path.extname(transfersPath));
+  const outputFileName = mintAddress 
+    ? `${transfersBaseName}_batch_transfer_${timestamp}_token.csv`
+    : `${transfersBaseName}_batch_transfer_${timestamp}.csv`;
+  return path.join(process.cwd(), 'out', outputFileName);
+};
+
+// Build one unsigned transaction per transfer instruction, each signed by its sender and paid by it or the fee payer
+const buildUnsignedTransfers = async (
+  connection: Connection,
+  transfersPath: string,
+  instructions: TransferInstruction[],
+  mintAddress: string | undefined,
+  blocked: Set<number>,
+  options: BatchTransferOptions
+): Promise<string> => {
+  const tokenInfo = mintAddress ? await getTokenProgramInfo(connection, mintAddress) : undefined;
+  const feePayer = options.feePayerAddress || options.feePayer?.publicKey;
+  const requests: OfflineTransactionRequest[] = [];
+
+  for (let i = 0; i < instructions.length; i++) {
+    if (blocked.has(i)) {
+      continue;
+    }
+    const { from, to, amount, memo } = instructions[i];
+    const sender = new PublicKey(from);
+    const transaction = new Transaction();
+
+    if (mintAddress && tokenInfo) {
+      const [planned] = await planTokenTransfers({
+        connection,
+        sender,
+        payer: feePayer,
+        mintAddress,
+        tokenInfo,
+        recipients: [{ address: to, rawAmount: convertToRawAmount(amount, tokenInfo.decimals, options.amountUnit), memo }],
+        transferFeeMode: options.transferFeeMode,
+        recipientKind: options.recipientKind,
+        allowPdaRecipients: options.allowPdaRecipients,
+      });
+      transaction.add(...planned.instructions);
+    } else {
+      transaction.add(SystemProgram.transfer({
+        fromPubkey: sender,
+        toPubkey: new PublicKey(to),
+        lamports: convertSolToLamports(amount, options.amountUnit),
+      }));
+      if (memo) {
+        transaction.add(createMemoInstruction(memo));
+      }
+    }
+    requests.push({
+      transaction,
+      feePayer: feePayer || sender,
+      rows: [{ rowIndex: i, intentHash: getTransferIntentHash(instructions[i], mintAddress, options.amountUnit), memo }],
+    });
+  }
+
+  return writeUnsignedTransactions(connection, 'transfer-many2many', transfersPath, requests, options, { mint: mintAddress, amountUnit: options.amountUnit });
+};
+
+/**
+ * Collect the results of transfers built with --build-only while ff broadcast sends them,
+ * and save them like a regular run when it finishes
+ * A transaction whose transfer changed in the transfers file since it was built is skipped
+ */
+export const openMany2ManyBroadcast = (transfersPath: string, mintAddress?: string, amountUnit?: AmountUnit): OfflineBroadcastHooks => {
+  const instructions = parseTransferInstructions(transfersPath);
+  const results: TransferResult[] = [];
+
+  const addResult = ({ rowIndex, memo }: OfflineRow, details: Partial<TransferResult>) => {
+    const { from, to, amount } = instructions[rowIndex];
+    results.push({ from, to, amount, token_mint: mintAddress, memo, status: 'failed', timestamp: new Date().toISOString(), ...details });
+  };
+
+  return {
+    checkTransaction: entry => {
+      for (const { rowIndex, intentHash } of entry.rows) {
+        const instruction = instructions[rowIndex];
+        if (!instruction || !intentHash || getTransferIntentHash(instruction, mintAddress, amountUnit) !== intentHash) {
+          return { skipReason: `transfer ${rowIndex + 1} changed since the transaction was built` };
+        }
+      }
+      return {};
+    },
+    onSent: () => undefined,
+    onConfirmed: entry => entry.rows.forEach(row => addResult(row, {
+      transaction_signature: entry.signature,
+      priority_fee: entry.priorityFee,
+      fee_lamports: entry.feeLamports,
+      status: 'success',
+    })),
+    onFailed: (entry, error) => entry.rows.forEach(row => addResult(row, {
+      transaction_signature: entry.signature,
+      error: error instanceof Error ? error.message : String(error),
+    })),
+    finish: async () => {
+      if (results.length > 0) {
+        printResultsTable(results, mintAddress);
+        await saveResultsToCSV(results, getResultsPath(transfersPath, mintAddress));
+      }
+    },
+  };
+};
+
 // Main function to execute batch transfer
 export const executeBatchTransfer = async (
   rpcUrl: string,
-  walletsPath: string,
+  walletsPath: string | undefined,
   transfersPath: string,
-  mintAddress?: string
+  mintAddress?: string,
+  options: BatchTransferOptions = {}
 ) => {
   // Connect to the Solana cluster
   logger.info(`Connecting to Solana network at ${rpcUrl}`);
   const connection = new Connection(rpcUrl);
 
+  // Refuse mints whose decimals cannot be verified or whose tokens cannot be transferred before any row is sent
+  let tokenInfo: TokenProgramInfo | undefined;
+  if (mintAddress) {
+    let blocker: string | undefined;
+    try {
+      tokenInfo = await getTokenProgramInfo(connection, mintAddress, options.expectDecimals);
+      blocker = getTransferBlocker(mintAddress, tokenInfo);
+    } catch (error) {
+      blocker = `Failed to read token mint: ${error instanceof Error ? error.message : error}`;
+    }
+    if (blocker) {
+      logger.error(blocker);
+      process.exit(1);
+    }
+  }
+
+  // Load transfer instructions and refuse recipients on the deny list or missing from the allow list
+  const instructions = loadTransferInstructions(transfersPath, options.memo);
+  let blocked: Set<number>;
+  try {
+    blocked = await screenTransferInstructions(transfersPath, instructions, mintAddress, options);
+  } catch (error) {
+    logger.error(`Failed to load address list: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  // Refuse the run if its transfers exceed the spending limits or include outlier amounts
+  const limitErrors: string[] = [];
+  const limitWarnings: string[] = [];
+  try {
+    const decimals = tokenInfo ? tokenInfo.decimals : 9;
+    checkSpendingLimits(
+      instructions.flatMap(({ to, amount, row }, i) => blocked.has(i) ? [] : [{
+        address: to,
+        rawAmount: convertToRawAmount(amount, decimals, options.amountUnit),
+        row,
+        mint: mintAddress,
+        decimals,
+      }]),
+      [],
+      options,
+      limitErrors,
+      limitWarnings
+    );
+  } catch (error) {
+    logger.error(`Failed to check spending limits: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  limitWarnings.forEach(warning => logger.warn(warning));
+  if (limitErrors.length > 0) {
+    limitErrors.forEach(error => logger.error(error));
+    logger.error('Spending limit checks failed, nothing was sent');
+    process.exit(1);
+  }
+
+  if (!options.buildOnly && !walletsPath) {
+    logger.error('--wallets is required unless --build-only is set');
+    process.exit(1);
+  }
+
+  const sendable = instructions.filter((_, i) => !blocked.has(i));
+
+  // Show what is about to be sent or built and have the user type the network name
+  const decimals = tokenInfo ? tokenInfo.decimals : 9;
+  const assetName = mintAddress ? `of ${mintAddress}` : 'SOL';
+  let total = BigInt(0);
+  const rows: string[] = [];
+  try {
+    sendable.forEach(({ from, to, amount }) => {
+      const rawAmount = convertToRawAmount(amount, decimals, options.amountUnit);
+      total += rawAmount;
+      rows.push(`${formatRawAmount(rawAmount, decimals)} ${assetName} from ${from} to ${to}`);
+    });
+  } catch (error) {
+    logger.error(`Invalid transfer amount: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  const senders = new Set(sendable.map(({ from }) => from));
+  const feeLamports = sendable.length * estimateTransactionFeeLamports(mintAddress ? 2 : 1, options);
+  const confirmed = await confirmAction(connection, {
+    action: options.buildOnly ? 'build the unsigned transactions' : 'send the transfers',
+    sender: senders.size === 1 ? Array.from(senders)[0] : `${senders.size} wallets`,
+    recipientCount: new Set(sendable.map(({ to }) => to)).size,
+    totals: [`${formatRawAmount(total, decimals)} ${assetName}`],
+    estimatedFee: formatFeeEstimate(feeLamports, options),
+    rows,
+  }, options.yes);
+  if (!confirmed) {
+    process.exit(1);
+  }
+
+  // Build unsigned transactions for offline signing; no private keys are needed
+  if (options.buildOnly) {
+    try {
+      const outputPath = await buildUnsignedTransfers(connection, transfersPath, instructions, mintAddress, blocked, options);
+      logger.info(`Sign them with: ff sign --input ${outputPath} --keypair <sender keypair>...`);
+    } catch (error) {
+      logger.error(`Failed to build transactions: ${error}`);
+      process.exit(1);
+    }
+    return;
+  }
+
   // Load wallet information
   logger.info(`Loading wallet information from ${walletsPath}`);
-  const wallets = readWalletsFromCSV(walletsPath);
+  const wallets = readWalletsFromCSV(walletsPath!);
   const walletMap = new Map<string, WalletInfo>();
   wallets.forEach(wallet => {
     walletMap.set(wallet.address, wallet);
   });
   logger.info(`Loaded ${wallets.length} wallets`);
+  if (options.feePayer) {
+    logger.info(`Fees and account rent are paid by ${options.feePayer.publicKey.toString()}`);
+  }
 
-  // Load transfer instructions
-  logger.info(`Loading transfer instructions from ${transfersPath}`);
-  const instructions = parseTransferInstructions(transfersPath);
-  logger.info(`Loaded ${instructions.length} transfer instructions`);
-
-  // Prepare results array
-  const results: TransferResult[] = [];
+  // Prepare results array, indexed like the instructions so concurrent sends keep the order
+  const results: TransferResult[] = new Array(sendable.length);
 
   // Execute transfers
-  for (let i = 0; i < instructions.length; i++) {
-    const instruction = instructions[i];
-    logger.info(`Processing transfer ${i + 1}/${instructions.length}: ${instruction.from} -> ${instruction.to} (${instruction.amount})`);
+  await runSendQueue(rpcUrl, sendable, options, async (instruction, i) => {
+    logger.info(`Processing transfer ${i + 1}/${sendable.length}: ${instruction.from} -> ${instruction.to} (${instruction.amount})`);
 
     const result: TransferResult = {
       from: instruction.from,
       to: instruction.to,
       amount: instruction.amount,
       token_mint: mintAddress,
+      memo: instruction.memo,
       status: 'failed',
       timestamp: new Date().toISOString(),
     };
@@ -268,45 +599,53 @@ export const executeBatchTransfer = async (
       const fromKeypair = createKeypairFromBase58(walletInfo.base58Key);
 
       // Execute transfer based on type
-      let signature: string;
+      let sent: SendTransactionResult;
       if (mintAddress) {
-        signature = await executeTokenTransfer(
+        sent = await executeTokenTransfer(
           connection,
           fromKeypair,
           instruction.to,
           instruction.amount,
-          mintAddress
+          options.amountUnit,
+          instruction.memo,
+          mintAddress,
+          {
+            transferFeeMode: options.transferFeeMode,
+            recipientKind: options.recipientKind,
+            allowPdaRecipients: options.allowPdaRecipients,
+          },
+          { ...options, logIdentifier: transfersPath }
         );
       } else {
-        signature = await executeSolTransfer(
+        sent = await executeSolTransfer(
           connection,
           fromKeypair,
           instruction.to,
-          instruction.amount
+          instruction.amount,
+          options.amountUnit,
+          instruction.memo,
+          { ...options, logIdentifier: transfersPath }
         );
       }
 
-      result.transaction_signature = signature;
+      result.transaction_signature = sent.signature;
+      result.priority_fee = sent.priorityFee;
+      result.fee_lamports = sent.feeLamports;
       result.status = 'success';
-      logger.info(`Transfer successful: ${signature}`);
+      logger.info(`Transfer successful: ${sent.signature}`);
     } catch (error) {
       result.error = error instanceof Error ? error.message : String(error);
       logger.error(`Transfer failed: ${result.error}`);
     }
 
-    results.push(result);
-  }
+    results[i] = result;
+  });
 
   // Print results table
-  printResultsTable(results, mintAddress);
+  printResultsTable(results, mintAddress, options.amountUnit);
 
   // Generate output filename
-  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
-  const transfersBaseName = path.basename(transfersPath, path.extname(transfersPath));
-  const outputFileName = mintAddress 
-    ? `${transfersBaseName}_batch_transfer_${timestamp}_token.csv`
-    : `${transfersBaseName}_batch_transfer_${timestamp}.csv`;
-  const outputPath = path.join(process.cwd(), 'out', outputFileName);
+  const outputPath = getResultsPath(transfersPath, mintAddress);
 
   // Save results to CSV
   await saveResultsToCSV(results, outputPath);
@@ -1,14 +1,13 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import * as dotenv from 'dotenv';
 const program = new Command();
 
 // Load environment variables from .env file
 dotenv.config();
 
-import { executeTransfer } from './solana-transfer';
-import { executeTokenTransfer } from './token-transfer';
+import { executeOne2ManyTransfer } from './one2many-transfer';
 import { executeBalanceQuery } from './balance-query';
 import { executeBatchTransfer } from './batch-transfer';
 import { executeFundAllocation } from './fund-allocation';
@@ -20,6 +19,23 @@ import { executeBalance } from './balance';
 import { executeDrainWallet } from './drain-wallet';
 import { executeBatchDrainWallet } from './batch-drain-wallet';
 import { executeSolWrapping } from './sol-wrap-unwrap';
+import { executeReconcile } from './reconcile';
+import { executeNonceClose, executeNonceCreate, executeNonceShow } from './nonce-account';
+import { executeBroadcast, executeSign } from './offline-transactions';
+import {
+  DEFAULT_COMPUTE_UNIT_MARGIN,
+  DEFAULT_PRIORITY_FEE_CAP,
+  DEFAULT_PRIORITY_FEE_PERCENTILE,
+  isValidMemo,
+  MAX_COMPUTE_UNITS_PER_TRANSACTION,
+  MAX_MEMO_BYTES,
+  PriorityFeeSetting,
+  TransactionOptions,
+} from './utils.transaction';
+import { AmountUnit, isValidAmount, RecipientKind, TransferFeeMode } from './utils.token';
+import { DEFAULT_OUTLIER_Z_SCORE } from './utils.limits';
+import { BuildOnlyOptions } from './utils.offline';
+import { Keypair, PublicKey } from '@solana/web3.js';
 import fs from 'fs';
 import path from 'path';
 
@@ -47,50 +63,346 @@ const getVersion = (): string => {
   }
 };
 
+// Parse a priority fee in micro-lamports per compute unit, or 'auto'
+const parsePriorityFee = (value: string): PriorityFeeSetting => {
+  if (value === 'auto') {
+    return 'auto';
+  }
+  const fee = parseInt(value, 10);
+  if (isNaN(fee) || fee < 0) {
+    throw new InvalidArgumentError('Priority fee must be a non-negative number of micro-lamports or "auto"');
+  }
+  return fee;
+};
+
+// Parse a compute unit limit, at most what a transaction may use
+const parseComputeUnitLimit = (value: string): number => {
+  const units = Number(value);
+  if (!/^\d+$/.test(value) || units < 1 || units > MAX_COMPUTE_UNITS_PER_TRANSACTION) {
+    throw new InvalidArgumentError(`Compute unit limit must be a whole number from 1 to ${MAX_COMPUTE_UNITS_PER_TRANSACTION}`);
+  }
+  return units;
+};
+
+// Parse the percentile of recent prioritization fees used in auto mode
+const parsePriorityFeePercentile = (value: string): number => {
+  const percentile = Number(value);
+  if (value.trim() === '' || isNaN(percentile) || percentile < 0 || percentile > 100) {
+    throw new InvalidArgumentError('Priority fee percentile must be a number from 0 to 100');
+  }
+  return percentile;
+};
+
+// Parse the highest priority fee auto mode may pick, in micro-lamports per compute unit
+const parsePriorityFeeCap = (value: string): number => {
+  if (!/^\d+$/.test(value)) {
+    throw new InvalidArgumentError('Priority fee cap must be a non-negative whole number of micro-lamports');
+  }
+  return Number(value);
+};
+
+// Parse the unit of CSV amounts, 'ui' for token amounts or 'raw' for base units
+const parseAmountUnit = (value: string): AmountUnit => {
+  if (value !== 'ui' && value !== 'raw') {
+    throw new InvalidArgumentError('Amount unit must be "ui" or "raw"');
+  }
+  return value;
+};
+
+// Parse the decimals a mint is expected to have
+const parseExpectDecimals = (value: string): number => {
+  const decimals = Number(value);
+  if (!/^\d+$/.test(value) || decimals > 255) {
+    throw new InvalidArgumentError('Expected decimals must be a whole number from 0 to 255');
+  }
+  return decimals;
+};
+
+// Parse how recipient addresses of token transfers are read
+const parseRecipientKind = (value: string): RecipientKind => {
+  if (value !== 'owner' && value !== 'token-account' && value !== 'auto') {
+    throw new InvalidArgumentError('Recipient kind must be "owner", "token-account" or "auto"');
+  }
+  return value;
+};
+
+// Parse how transfer fees of Token-2022 mints are paid
+const parseTransferFeeMode = (value: string): TransferFeeMode => {
+  if (value !== 'gross-up' && value !== 'net') {
+    throw new InvalidArgumentError('Transfer fee mode must be "gross-up" or "net"');
+  }
+  return value;
+};
+
+// Parse a spending limit, kept as a string so it is converted to base units like the amounts it limits
+const parseAmountLimit = (value: string): string => {
+  if (!isValidAmount(value)) {
+    throw new InvalidArgumentError('Limit must be a positive decimal amount');
+  }
+  return value.trim();
+};
+
+// Parse the robust z-score beyond which an amount is an outlier
+const parseOutlierZScore = (value: string): number => {
+  const zScore = parseFloat(value);
+  if (isNaN(zScore) || zScore <= 0) {
+    throw new InvalidArgumentError('Outlier z-score must be a positive number');
+  }
+  return zScore;
+};
+
+// Parse a memo attached to every transfer
+const parseMemo = (value: string): string => {
+  if (!isValidMemo(value)) {
+    throw new InvalidArgumentError(`Memo must be at most ${MAX_MEMO_BYTES} bytes`);
+  }
+  return value;
+};
+
+// Parse the comma-separated addresses of durable nonce accounts (one per transaction with --build-only)
+const parseNonceAccounts = (value: string): PublicKey[] => {
+  try {
+    return value.split(',').map(address => new PublicKey(address.trim()));
+  } catch (error) {
+    throw new InvalidArgumentError('Nonce accounts must be valid addresses');
+  }
+};
+
+// Load the nonce authority keypair from a JSON array file
+const parseNonceAuthority = (value: string): Keypair => {
+  try {
+    return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(fs.readFileSync(value, 'utf8'))));
+  } catch (error) {
+    throw new InvalidArgumentError(`Failed to load nonce authority keypair: ${error}`);
+  }
+};
+
+// Load the fee payer keypair from a JSON array file, or take the fee payer address alone, which only --build-only accepts
+const parseFeePayer = (value: string): Keypair | PublicKey => {
+  if (!fs.existsSync(value)) {
+    try {
+      return new PublicKey(value);
+    } catch (error) {
+      // Not an address either, so report the missing keypair file below
+    }
+  }
+  try {
+    return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(fs.readFileSync(value, 'utf8'))));
+  } catch (error) {
+    throw new InvalidArgumentError(`Failed to load fee payer keypair: ${error}`);
+  }
+};
+
+// Add the priority fee and compute budget options shared by all sending commands
+const addTransactionOptions = (command: Command): Command => {
+  return command
+    .option('--priority-fee <microLamports>', 'Priority fee in micro-lamports per compute unit, or "auto" to derive it from recent fees', parsePriorityFee)
+    .option('--compute-unit-limit <units>', 'Compute unit limit for each transaction', parseComputeUnitLimit)
+    .option('--priority-fee-percentile <percentile>', 'Percentile of recent prioritization fees used by --priority-fee auto', parsePriorityFeePercentile, DEFAULT_PRIORITY_FEE_PERCENTILE)
+    .option('--priority-fee-cap <microLamports>', 'Maximum priority fee used by --priority-fee auto', parsePriorityFeeCap, DEFAULT_PRIORITY_FEE_CAP)
+    .option('--simulate', 'Simulate each transaction before sending and size its compute unit limit from the result', false)
+    .option('--versioned', 'Send v0 versioned transactions instead of legacy ones', false)
+    .option('--nonce-account <addresses>', 'Durable nonce account used in place of a recent blockhash (comma-separated, one per transaction with --build-only)', parseNonceAccounts)
+    .option('--nonce-authority <path>', 'Path to the nonce authority keypair file (defaults to the fee payer)', parseNonceAuthority)
+    .option('--compute-unit-margin <percent>', 'Percent added to the simulated compute units', (value) => parseFloat(value), DEFAULT_COMPUTE_UNIT_MARGIN);
+};
+
+// Collect the shared transaction options from parsed command options
+const getTransactionOptions = (options: any): TransactionOptions & BuildOnlyOptions => {
+  if (options.nonceAccount?.length > 1 && !options.buildOnly) {
+    console.error('Error: Several --nonce-account addresses can only be given with --build-only');
+    process.exit(1);
+  }
+  const feePayerAddress = options.feePayer instanceof PublicKey ? options.feePayer : undefined;
+  if (feePayerAddress && !options.buildOnly) {
+    console.error('Error: --fee-payer must be a keypair file, only --build-only accepts an address');
+    process.exit(1);
+  }
+  if (options.nonceAuthority && !options.nonceAccount) {
+    console.error('Error: --nonce-authority can only be given with --nonce-account');
+    process.exit(1);
+  }
+  return {
+    priorityFee: options.priorityFee,
+    computeUnitLimit: options.computeUnitLimit,
+    priorityFeePercentile: options.priorityFeePercentile,
+    priorityFeeCap: options.priorityFeeCap,
+    simulate: options.simulate,
+    computeUnitMargin: options.computeUnitMargin,
+    versioned: options.versioned,
+    nonceAccount: options.nonceAccount?.[0],
+    nonceAccounts: options.nonceAccount,
+    nonceAuthority: options.nonceAuthority,
+    feePayer: feePayerAddress ? undefined : options.feePayer,
+    feePayerAddress,
+    buildOnly: options.buildOnly,
+  };
+};
+
 // One-to-many transfer command (unified SOL and token transfers)
-program
+addTransactionOptions(program
   .command('transfer-one2many')
   .description('Transfer SOL or tokens from one address to multiple recipients')
-  .requiredOption('--keypair <path>', 'Path to sender keypair file', process.env.SOLANA_KEYPAIR_PATH)
+  .option('--keypair <path>', 'Path to sender keypair file (not needed with --build-only and --sender)', process.env.SOLANA_KEYPAIR_PATH)
   .requiredOption('--receivers <path>', 'Path to CSV file containing receiver addresses and amounts')
   .option('--rpc <url>', 'Solana RPC URL', process.env.SOLANA_RPC_URL)
-  .option('--mint <address>', 'SPL Token mint address (if not provided, transfers SOL)')
-  .option('--batch-size <size>', 'Number of transfers to process in a batch', (value) => parseInt(value, 10), 1)
+  .option('--mint <address>', 'SPL Token mint address for rows without a mint column value (if not provided, those rows transfer SOL)')
+  .option('--amount-unit <unit>', 'Unit of the amount column: "ui" (e.g. 1.5 tokens) or "raw" (base units, e.g. lamports)', parseAmountUnit, 'ui')
+  .option('--transfer-fee-mode <mode>', 'For mints with a transfer fee: "gross-up" (the sender also pays the fee) or "net" (the recipient receives the amount minus the fee)', parseTransferFeeMode, 'gross-up')
+  .option('--expect-decimals <places>', 'Refuse to run unless every token mint paid out has this many decimals', parseExpectDecimals)
+  .option('--recipient-kind <kind>', 'How addresses of token rows are read: "owner" (wallet, paid to its associated token account), "token-account" (paid directly) or "auto" (decided by the program owning the address)', parseRecipientKind, 'auto')
+  .option('--allow-pda-recipients', 'Pay token recipients that are off-curve program addresses (PDAs), such as program or multisig vaults', false)
+  .option('--batch-size <size>', 'Maximum number of recipients to pack into one transaction', (value) => parseInt(value, 10), 1)
+  .option('--concurrency <number>', 'Number of transactions to keep in flight at once', (value) => parseInt(value, 10), 1)
+  .option('--rate-limit <tps>', 'Maximum transactions started per second for the RPC endpoint (0 = unlimited)', (value) => parseFloat(value), 0)
+  .option('--lookup-table', 'Load recipient accounts from a temporary address lookup table to fit more transfers per transaction (sends v0 transactions)', false)
+  .option('--memo <text>', 'Memo recorded with every transfer of rows without a memo column value', parseMemo)
+  .option('--build-only', 'Write unsigned transactions to a file for ff sign and ff broadcast instead of sending them', false)
+  .option('--sender <address>', 'Sender address for --build-only, so the sender keypair is not needed')
+  .option('--skip-nonexistent', 'Skip SOL rows whose recipient address has no account yet, leaving them pending', false)
+  .option('--deny-list <path>', 'File of addresses that must never be paid (one per line, or CSV of address,label); matching rows are skipped')
+  .option('--allow-list <path>', 'File of the only addresses that may be paid; rows paying any other address are skipped')
+  .option('--max-per-recipient <amount>', 'Refuse to run if an address would receive more than this amount of an asset (in the unit of the amount column)', parseAmountLimit)
+  .option('--max-total <amount>', 'Refuse to run if more than this amount of an asset would be paid out', parseAmountLimit)
+  .option('--max-cumulative <amount>', 'Refuse to run if an address would receive more than this amount of an asset across all runs of the receivers file', parseAmountLimit)
+  .option('--outlier-z-score <number>', 'Refuse amounts whose robust z-score (distance from the median amount of their asset) is above this', parseOutlierZScore, DEFAULT_OUTLIER_Z_SCORE)
+  .option('--allow-outliers', 'Pay outlier amounts anyway, only warning about them', false)
+  .option('--yes', 'Skip the typed confirmation after the preflight summary (for scripted runs)', false))
   .action(async (options) => {
-    if (options.mint) {
-      // Token transfer
-      await executeTokenTransfer(
-        options.rpc,
-        options.keypair,
-        options.receivers,
-        options.mint,
-        options.batchSize
-      );
-    } else {
-      // SOL transfer
-      await executeTransfer(
-        options.rpc,
-        options.keypair,
-        options.receivers,
-        options.batchSize
-      );
-    }
+    await executeOne2ManyTransfer(
+      options.rpc,
+      options.keypair,
+      options.receivers,
+      options.batchSize,
+      {
+        mint: options.mint,
+        amountUnit: options.amountUnit,
+        transferFeeMode: options.transferFeeMode,
+        expectDecimals: options.expectDecimals,
+        recipientKind: options.recipientKind,
+        allowPdaRecipients: options.allowPdaRecipients,
+        skipNonexistent: options.skipNonexistent,
+        denyList: options.denyList,
+        allowList: options.allowList,
+        maxPerRecipient: options.maxPerRecipient,
+        maxTotal: options.maxTotal,
+        maxCumulative: options.maxCumulative,
+        outlierZScore: options.outlierZScore,
+        allowOutliers: options.allowOutliers,
+        lookupTable: options.lookupTable,
+        sender: options.sender,
+        memo: options.memo,
+        concurrency: options.concurrency,
+        rateLimit: options.rateLimit,
+        yes: options.yes,
+        ...getTransactionOptions(options),
+      }
+    );
   });
 
 // Many-to-many transfer command
-program
+addTransactionOptions(program
   .command('transfer-many2many')
   .description('Execute many-to-many transfers using wallet private keys and transfer instructions')
-  .requiredOption('--wallets <path>', 'Path to CSV file containing wallet addresses and private keys (address,base58,array)')
+  .option('--wallets <path>', 'Path to CSV file containing wallet addresses and private keys (address,base58,array), not needed with --build-only')
   .requiredOption('--transfers <path>', 'Path to CSV file containing transfer instructions (from,to,amount)')
   .option('--rpc <url>', 'Solana RPC URL', process.env.SOLANA_RPC_URL)
   .option('--mint <address>', 'SPL Token mint address (if not provided, transfers SOL)')
+  .option('--amount-unit <unit>', 'Unit of the amount column: "ui" (e.g. 1.5 tokens) or "raw" (base units, e.g. lamports)', parseAmountUnit, 'ui')
+  .option('--transfer-fee-mode <mode>', 'For mints with a transfer fee: "gross-up" (the sender also pays the fee) or "net" (the recipient receives the amount minus the fee)', parseTransferFeeMode, 'gross-up')
+  .option('--expect-decimals <places>', 'Refuse to run unless the token mint has this many decimals', parseExpectDecimals)
+  .option('--recipient-kind <kind>', 'How recipient addresses of token transfers are read: "owner" (wallet, paid to its associated token account), "token-account" (paid directly) or "auto" (decided by the program owning the address)', parseRecipientKind, 'auto')
+  .option('--allow-pda-recipients', 'Pay token recipients that are off-curve program addresses (PDAs), such as program or multisig vaults', false)
+  .option('--concurrency <number>', 'Number of transactions to keep in flight at once', (value) => parseInt(value, 10), 1)
+  .option('--rate-limit <tps>', 'Maximum transactions started per second for the RPC endpoint (0 = unlimited)', (value) => parseFloat(value), 0)
+  .option('--memo <text>', 'Memo recorded with every transfer of rows without a memo column value', parseMemo)
+  .option('--fee-payer <path>', 'Path to a keypair file paying fees and account rent for every transfer instead of the source wallets (with --build-only, its address is enough)', parseFeePayer)
+  .option('--deny-list <path>', 'File of addresses that must never be paid (one per line, or CSV of address,label); matching rows are skipped')
+  .option('--allow-list <path>', 'File of the only addresses that may be paid; rows paying any other address are skipped')
+  .option('--max-per-recipient <amount>', 'Refuse to run if an address would receive more than this amount (in the unit of the amount column)', parseAmountLimit)
+  .option('--max-total <amount>', 'Refuse to run if more than this amount would be paid out', parseAmountLimit)
+  .option('--outlier-z-score <number>', 'Refuse amounts whose robust z-score (distance from the median amount) is above this', parseOutlierZScore, DEFAULT_OUTLIER_Z_SCORE)
+  .option('--allow-outliers', 'Pay outlier amounts anyway, only warning about them', false)
+  .option('--build-only', 'Write unsigned transactions to a file for ff sign and ff broadcast instead of sending them', false)
+  .option('--yes', 'Skip the typed confirmation before sending or building (for scripted runs)', false))
   .action(async (options) => {
     await executeBatchTransfer(
       options.rpc,
       options.wallets,
       options.transfers,
-      options.mint
+      options.mint,
+      {
+        amountUnit: options.amountUnit,
+        transferFeeMode: options.transferFeeMode,
+        expectDecimals: options.expectDecimals,
+        recipientKind: options.recipientKind,
+        allowPdaRecipients: options.allowPdaRecipients,
+        denyList: options.denyList,
+        allowList: options.allowList,
+        maxPerRecipient: options.maxPerRecipient,
+        maxTotal: options.maxTotal,
+        outlierZScore: options.outlierZScore,
+        allowOutliers: options.allowOutliers,
+        memo: options.memo,
+        concurrency: options.concurrency,
+        rateLimit: options.rateLimit,
+        yes: options.yes,
+        ...getTransactionOptions(options),
+      }
+    );
+  });
+
+// Offline signing commands
+program
+  .command('sign')
+  .description('Sign transactions written by --build-only, without network access')
+  .requiredOption('--input <path>', 'Path to the transactions file written by --build-only')
+  .requiredOption('--keypair <paths...>', 'Paths to the keypair files signing the transactions')
+  .option('--blockhash <hash>', 'Recent blockhash for transactions built without a durable nonce (replaces their signatures)')
+  .option('--output <path>', 'Path of the signed file (defaults to the input name with _signed)')
+  .option('--yes', 'Sign without asking for confirmation', false)
+  .action(async (options) => {
+    await executeSign(options.input, options.keypair, {
+      blockhash: options.blockhash,
+      output: options.output,
+      yes: options.yes,
+    });
+  });
+
+program
+  .command('broadcast')
+  .description('Broadcast transactions signed with ff sign and update the progress of the payout')
+  .requiredOption('--input <path>', 'Path to the signed transactions file')
+  .option('--rpc <url>', 'Solana RPC URL', process.env.SOLANA_RPC_URL)
+  .option('--concurrency <number>', 'Number of transactions to keep in flight at once', (value) => parseInt(value, 10), 1)
+  .option('--rate-limit <tps>', 'Maximum transactions started per second for the RPC endpoint (0 = unlimited)', (value) => parseFloat(value), 0)
+  .option('--yes', 'Skip the typed confirmation before broadcasting (for scripted runs)', false)
+  .action(async (options) => {
+    await executeBroadcast(options.rpc, options.input, {
+      concurrency: options.concurrency,
+      rateLimit: options.rateLimit,
+      yes: options.yes,
+    });
+  });
+
+// Reconcile command
+program
+  .command('reconcile')
+  .description('Verify on-chain that every row of a finished transfer-one2many payout was paid exactly once')
+  .requiredOption('--receivers <path>', 'Path to the receivers CSV file of the payout')
+  .option('--rpc <url>', 'Solana RPC URL', process.env.SOLANA_RPC_URL)
+  .option('--mint <address>', 'SPL Token mint address for rows without a mint column value (if not provided, those rows are checked as SOL)')
+  .option('--sender <address>', 'Wallet expected to have paid every transfer')
+  .option('--amount-unit <unit>', 'Unit of the amount column: "ui" (e.g. 1.5 tokens) or "raw" (base units, e.g. lamports)', parseAmountUnit, 'ui')
+  .action(async (options) => {
+    await executeReconcile(
+      options.rpc,
+      options.receivers,
+      {
+        mint: options.mint,
+        sender: options.sender,
+        amountUnit: options.amountUnit,
+      }
     );
   });
 
@@ -259,6 +571,39 @@ program
     );
   });
 
+// Nonce account commands
+addTransactionOptions(program
+  .command('nonce-create')
+  .description('Create a durable nonce account for sending with --nonce-account')
+  .requiredOption('--keypair <path>', 'Path to the keypair file paying for the account', process.env.SOLANA_KEYPAIR_PATH)
+  .option('--authority <address>', 'Nonce authority (defaults to the paying wallet)')
+  .option('--rpc <url>', 'Solana RPC URL', process.env.SOLANA_RPC_URL)
+  .option('--yes', 'Skip the typed confirmation before creating the account (for scripted runs)', false))
+  .action(async (options) => {
+    await executeNonceCreate(options.rpc, options.keypair, options.authority, { ...getTransactionOptions(options), yes: options.yes });
+  });
+
+program
+  .command('nonce-show')
+  .description('Show the authority, current nonce and balance of a nonce account')
+  .requiredOption('--address <address>', 'Nonce account address')
+  .option('--rpc <url>', 'Solana RPC URL', process.env.SOLANA_RPC_URL)
+  .action(async (options) => {
+    await executeNonceShow(options.rpc, options.address);
+  });
+
+addTransactionOptions(program
+  .command('nonce-close')
+  .description('Close a nonce account and withdraw its balance')
+  .requiredOption('--keypair <path>', 'Path to the nonce authority keypair file', process.env.SOLANA_KEYPAIR_PATH)
+  .requiredOption('--address <address>', 'Nonce account address')
+  .option('--to <address>', 'Wallet receiving the balance (defaults to the authority)')
+  .option('--rpc <url>', 'Solana RPC URL', process.env.SOLANA_RPC_URL)
+  .option('--yes', 'Skip the typed confirmation before closing the account (for scripted runs)', false))
+  .action(async (options) => {
+    await executeNonceClose(options.rpc, options.keypair, options.address, options.to, { ...getTransactionOptions(options), yes: options.yes });
+  });
+
 // Balance command for a single address
 program
   .command('balance')
@@ -275,7 +620,7 @@ program
   });
 
 // Drain wallet command - transfer all assets and close accounts
-program
+addTransactionOptions(program
   .command('drain-wallet')
   .description('Transfer all assets from one wallet to another and close accounts to reclaim rent')
   .option('--from-key-file <path>', 'Path to source wallet keypair file (array format)')
@@ -289,6 +634,8 @@ program
   .option('--tokens <list>', 'Comma-separated list of specific token mints to transfer')
   .option('--exclude-tokens <list>', 'Comma-separated list of token mints to exclude from transfer')
   .option('--min-balance <amount>', 'Minimum token balance to transfer (skip dust)', (value) => parseFloat(value), 0)
+  .option('--fee-payer <path>', 'Path to a keypair file paying fees and account rent instead of the source wallet', parseFeePayer)
+  .option('--yes', 'Skip the typed confirmation before draining (for scripted runs)', false))
   .action(async (options) => {
     if (!options.fromKeyFile && !options.fromKeyBs58) {
       console.error('Error: Either --from-key-file or --from-key-bs58 must be provided');
@@ -316,12 +663,14 @@ program
         tokens,
         excludeTokens,
         minBalance: options.minBalance,
+        yes: options.yes,
+        ...getTransactionOptions(options),
       }
     );
   });
 
 // Batch drain wallet command - transfer all assets from multiple wallets to their destinations
-program
+addTransactionOptions(program
   .command('batch-drain-wallet')
   .description('Batch transfer all assets from multiple wallets to their respective destinations')
   .requiredOption('--from-wallets <path>', 'Path to CSV file with source wallet addresses and private keys (3-column format)')
@@ -335,6 +684,12 @@ program
   .option('--tokens <list>', 'Comma-separated list of specific token mints to transfer')
   .option('--exclude-tokens <list>', 'Comma-separated list of token mints to exclude from transfer')
   .option('--min-balance <amount>', 'Minimum token balance to transfer (skip dust)', (value) => parseFloat(value), 0)
+  .option('--fee-payer <path>', 'Path to a keypair file paying fees and account rent instead of the source wallets', parseFeePayer)
+  .option('--deny-list <path>', 'File of addresses that must never be paid (one per line, or CSV of address,label); matching wallets are skipped')
+  .option('--allow-list <path>', 'File of the only destination addresses allowed; wallets draining to any other address are skipped')
+  .option('--yes', 'Skip the typed confirmation before draining the batch (for scripted runs)', false)
+  .option('--concurrency <number>', 'Number of wallets to drain at once', (value) => parseInt(value, 10), 1)
+  .option('--rate-limit <tps>', 'Maximum wallet drains started per second for the RPC endpoint (0 = unlimited)', (value) => parseFloat(value), 0))
   .action(async (options) => {
     const tokens = options.tokens ? options.tokens.split(',').map((t: string) => t.trim()) : undefined;
     const excludeTokens = options.excludeTokens ? options.excludeTokens.split(',').map((t: string) => t.trim()) : undefined;
@@ -355,12 +710,18 @@ program
         excludeTokens,
         minBalance: options.minBalance,
         indices: indices.length > 0 ? indices : undefined, // 如果有指定索引，则传入
+        denyList: options.denyList,
+        allowList: options.allowList,
+        yes: options.yes,
+        concurrency: options.concurrency,
+        rateLimit: options.rateLimit,
+        ...getTransactionOptions(options),
       }
     );
   });
 
 // SOL wrap/unwrap combined command
-program
+addTransactionOptions(program
   .command('sol-wrap-unwrap')
   .description('Wrap SOL to wSOL and unwrap wSOL to SOL')
   .option('--from-key-file <path>', 'Path to source wallet keypair file (array format)')
@@ -372,6 +733,7 @@ program
   .option('--amount <sol>', 'Amount of SOL to wrap/unwrap (applies only to single wallet)', (val) => parseFloat(val))
   .option('--min-sol-balance <sol>', 'Minimum SOL balance to keep when wrapping', (val) => parseFloat(val), 0.02)
   .option('--rpc <url>', 'Solana RPC URL', process.env.SOLANA_RPC_URL)
+  .option('--yes', 'Skip the typed confirmation before wrapping or unwrapping (for scripted runs)', false))
   .action(async (options) => {
     // Check if either direct key or wallet file is provided
     if (!options.fromKeyFile && !options.fromKeyBs58 && 
@@ -400,13 +762,15 @@ program
       {
         minSolBalance: options.minSolBalance,
         amount: options.amount,
-        walletPath: options.wallets
+        walletPath: options.wallets,
+        yes: options.yes,
+        ...getTransactionOptions(options),
       }
     );
   });
 
 // Separate commands for wrap and unwrap
-program
+addTransactionOptions(program
   .command('wrap-sol')
   .description('Wrap SOL to wSOL')
   .option('--from-key-file <path>', 'Path to source wallet keypair file (array format)')
@@ -417,6 +781,7 @@ program
   .option('--amount <sol>', 'Amount of SOL to wrap (applies only to single wallet)', (val) => parseFloat(val))
   .option('--min-sol-balance <sol>', 'Minimum SOL balance to keep when wrapping', (val) => parseFloat(val), 0.02)
   .option('--rpc <url>', 'Solana RPC URL', process.env.SOLANA_RPC_URL)
+  .option('--yes', 'Skip the typed confirmation before wrapping (for scripted runs)', false))
   .action(async (options) => {
     // Check if either direct key or wallet file is provided
     if (!options.fromKeyFile && !options.fromKeyBs58 && 
@@ -438,12 +803,14 @@ program
       {
         minSolBalance: options.minSolBalance,
         amount: options.amount,
-        walletPath: options.wallets
+        walletPath: options.wallets,
+        yes: options.yes,
+        ...getTransactionOptions(options),
       }
     );
   });
 
-program
+addTransactionOptions(program
   .command('unwrap-sol')
   .description('Unwrap wSOL to SOL')
   .option('--from-key-file <path>', 'Path to source wallet keypair file (array format)')
@@ -453,6 +820,7 @@ program
   .option('--wallets <path>', 'Path to CSV file containing wallet addresses and private keys (address,base58,array)')
   .option('--amount <sol>', 'Amount of wSOL to unwrap (applies only to single wallet)', (val) => parseFloat(val))
   .option('--rpc <url>', 'Solana RPC URL', process.env.SOLANA_RPC_URL)
+  .option('--yes', 'Skip the typed confirmation before unwrapping (for scripted runs)', false))
   .action(async (options) => {
     // Check if either direct key or wallet file is provided
     if (!options.fromKeyFile && !options.fromKeyBs58 && 
@@ -473,7 +841,9 @@ program
       keyBs58,
       {
         amount: options.amount,
-        walletPath: options.wallets
+        walletPath: options.wallets,
+        yes: options.yes,
+        ...getTransactionOptions(options),
       }
     );
   });
@@ -5,7 +5,6 @@ import {
   Keypair,
   PublicKey,
   Transaction,
-  sendAndConfirmTransaction,
   LAMPORTS_PER_SOL,
   SystemProgram,
 } from '@solana/web3.js';
@@ -20,7 +19,16 @@ import {
   NATIVE_MINT,
 } from '@solana/spl-token';
 import { logger, logTransaction, logImportant } from './utils';
-import { executeAtomicTokenTransfer, getTokenProgramInfo } from './utils.token';
+import { executeAtomicTokenTransfer, formatRawAmount, getTokenProgramInfo } from './utils.token';
+import { confirmAction, formatFeeEstimate } from './utils.confirm';
+import {
+  calculatePriorityFeeLamports,
+  estimateTransactionFeeLamports,
+  resolvePriorityFee,
+  sendTransaction,
+  SendTransactionResult,
+  TransactionOptions,
+} from './utils.transaction';
 import bs58 from 'bs58';
 
 // Helper function to generate timestamp for file names
@@ -62,6 +70,7 @@ interface DrainResult {
   };
   closedAccounts: number;
   reclaimedRent: number;
+  feesPaid: number; // Total transaction fees in lamports
   finalBalance: number;
   errors: string[];
   signatures: {
@@ -146,8 +155,9 @@ export const discoverWalletAssets = async (
 const unwrapWSol = async (
   connection: Connection,
   walletKeypair: Keypair,
-  wsolAccount: TokenAccountInfo
-): Promise<string> => {
+  wsolAccount: TokenAccountInfo,
+  transactionOptions: TransactionOptions
+): Promise<SendTransactionResult> => {
   logger.info(`Unwrapping ${Number(wsolAccount.amount) / Math.pow(10, wsolAccount.decimals)} WSOL to SOL`);
   
   const transaction = new Transaction();
@@ -170,14 +180,15 @@ const unwrapWSol = async (
     )
   );
   
-  const signature = await sendAndConfirmTransaction(
+  const result = await sendTransaction(
     connection,
     transaction,
-    [walletKeypair]
+    [walletKeypair],
+    transactionOptions
   );
   
-  logger.info(`WSOL unwrapped successfully: ${signature}`);
-  return signature;
+  logger.info(`WSOL unwrapped successfully: ${result.signature}`);
+  return result;
 };
 
 /**
@@ -187,15 +198,18 @@ const transferAllTokens = async (
   connection: Connection,
   sourceKeypair: Keypair,
   destinationAddress: string,
-  tokenAccounts: TokenAccountInfo[]
-): Promise<{ transferred: TokenAccountInfo[]; errors: string[] }> => {
+  tokenAccounts: TokenAccountInfo[],
+  transactionOptions: TransactionOptions
+): Promise<{ transferred: TokenAccountInfo[]; errors: string[]; feesPaid: number }> => {
   const transferred: TokenAccountInfo[] = [];
   const errors: string[] = [];
+  let feesPaid = 0;
   
   logger.info(`Transferring ${tokenAccounts.length} token types to ${destinationAddress}`);
   
-  // Check current SOL balance before attempting token transfers
-  const currentBalance = await connection.getBalance(sourceKeypair.publicKey);
+  // Check the SOL balance paying fees and account rent before attempting token transfers
+  const payer = transactionOptions.feePayer?.publicKey || sourceKeypair.publicKey;
+  const currentBalance = await connection.getBalance(payer);
   const currentSol = currentBalance / LAMPORTS_PER_SOL;
   
   // Check if we need to create recipient token accounts
@@ -233,13 +247,13 @@ const transferAllTokens = async (
   const minimumSolNeeded = Math.max(totalEstimatedCost + safetyBuffer, 0.002); // Minimum 0.002 SOL required
   
   if (currentSol < minimumSolNeeded) {
-    const errorMsg = `Insufficient SOL balance (${currentSol.toFixed(6)} SOL) to cover token transfers. ` +
+    const errorMsg = `Insufficient SOL balance of ${payer.toString()} (${currentSol.toFixed(6)} SOL) to cover token transfers. ` +
       `Estimated need: ${minimumSolNeeded.toFixed(6)} SOL (${atasToCreate} ATAs to create, cost: ~${estimatedATACreationCost.toFixed(6)} SOL + fees)`;
     logger.error(errorMsg);
     errors.push(errorMsg);
     
     // Return early if we know there's not enough SOL
-    return { transferred, errors };
+    return { transferred, errors, feesPaid };
   }
   
   // Log ATA creation information
@@ -254,20 +268,26 @@ const transferAllTokens = async (
     }
     
     try {
-      const amount = Number(tokenAccount.amount) / Math.pow(10, tokenAccount.decimals);
+      const amount = formatRawAmount(BigInt(tokenAccount.amount), tokenAccount.decimals);
       
       logger.info(`Transferring ${amount} tokens from mint ${tokenAccount.mint.substring(0, 8)}...`);
       
+      // Transfer the exact balance in base units, a UI amount could lose precision;
+      // a transfer fee comes out of the balance since nothing is left to gross it up with
       const result = await executeAtomicTokenTransfer({
         connection,
         fromKeypair: sourceKeypair,
         toAddress: destinationAddress,
         mintAddress: tokenAccount.mint,
-        amount,
+        amount: tokenAccount.amount,
+        amountUnit: 'raw',
+        transferFeeMode: 'net',
+        transactionOptions,
       });
       
       logger.info(`Token transfer successful: ${result.signature}`);
       transferred.push(tokenAccount);
+      feesPaid += result.feeLamports;
       
     } catch (error) {
       const errorMsg = `Failed to transfer tokens from mint ${tokenAccount.mint}: ${error}`;
@@ -276,7 +296,7 @@ const transferAllTokens = async (
     }
   }
   
-  return { transferred, errors };
+  return { transferred, errors, feesPaid };
 };
 
 /**
@@ -285,10 +305,12 @@ const transferAllTokens = async (
 const closeTokenAccounts = async (
   connection: Connection,
   walletKeypair: Keypair,
-  tokenAccounts: TokenAccountInfo[]
-): Promise<{ closed: number; reclaimedRent: number; errors: string[] }> => {
+  tokenAccounts: TokenAccountInfo[],
+  transactionOptions: TransactionOptions
+): Promise<{ closed: number; reclaimedRent: number; errors: string[]; feesPaid: number }> => {
   let closed = 0;
   let reclaimedRent = 0;
+  let feesPaid = 0;
   const errors: string[] = [];
   
   logger.info(`Closing ${tokenAccounts.length} token accounts to reclaim rent`);
@@ -307,14 +329,16 @@ const closeTokenAccounts = async (
         )
       );
       
-      const signature = await sendAndConfirmTransaction(
+      const { signature, feeLamports } = await sendTransaction(
         connection,
         transaction,
-        [walletKeypair]
+        [walletKeypair],
+        transactionOptions
       );
       
       closed++;
       reclaimedRent += tokenAccount.rentLamports / LAMPORTS_PER_SOL;
+      feesPaid += feeLamports;
       
       logger.info(`Closed token account ${tokenAccount.address.substring(0, 8)}..., reclaimed ${tokenAccount.rentLamports / LAMPORTS_PER_SOL} SOL rent: ${signature}`);
       
@@ -325,7 +349,7 @@ const closeTokenAccounts = async (
     }
   }
   
-  return { closed, reclaimedRent, errors };
+  return { closed, reclaimedRent, errors, feesPaid };
 };
 
 /**
@@ -335,16 +359,41 @@ const transferRemainingSol = async (
   connection: Connection,
   sourceKeypair: Keypair,
   destinationAddress: string,
-  keepAmount: number = 0
-): Promise<{ transferred: number; signature: string | null }> => {
+  keepAmount: number = 0,
+  transactionOptions: TransactionOptions = {}
+): Promise<{ transferred: number; signature: string | null; feeLamports: number }> => {
   const currentBalance = await connection.getBalance(sourceKeypair.publicKey);
   const currentSol = currentBalance / LAMPORTS_PER_SOL;
   
+  // A separate fee payer covers the fees, so everything above keepAmount can be transferred
+  if (transactionOptions.feePayer) {
+    const lamports = currentBalance - Math.round(keepAmount * LAMPORTS_PER_SOL);
+    if (lamports <= 0) {
+      logger.info(`No SOL to transfer after keeping ${keepAmount} SOL`);
+      return { transferred: 0, signature: null, feeLamports: 0 };
+    }
+    
+    logger.info(`Transferring ${lamports / LAMPORTS_PER_SOL} SOL to ${destinationAddress} (keeping ${keepAmount} SOL, fees paid by ${transactionOptions.feePayer.publicKey.toString()})`);
+    const { signature, feeLamports } = await sendTransaction(
+      connection,
+      new Transaction().add(SystemProgram.transfer({
+        fromPubkey: sourceKeypair.publicKey,
+        toPubkey: new PublicKey(destinationAddress),
+        lamports,
+      })),
+      [sourceKeypair],
+      transactionOptions
+    );
+    
+    logger.info(`SOL transfer successful: ${signature}`);
+    return { transferred: lamports / LAMPORTS_PER_SOL, signature, feeLamports };
+  }
+  
   // Hard minimum SOL requirement to prevent insufficient funds errors
   const minRequiredSol = 0.002; // 2,000,000 lamports
   if (currentSol < minRequiredSol) {
     logger.warn(`SOL balance (${currentSol.toFixed(6)} SOL) is too low to safely perform transfer. Minimum recommended: ${minRequiredSol} SOL`);
-    return { transferred: 0, signature: null };
+    return { transferred: 0, signature: null, feeLamports: 0 };
   }
   
   // Create a transaction to estimate fees
@@ -383,6 +432,18 @@ const transferRemainingSol = async (
     logger.warn(`Error calculating exact fee, using safe estimate of ${estimatedFee} SOL: ${error}`);
   }
   
+  // Resolve the priority fee once so the amount left behind covers exactly what is paid
+  const priorityFee = await resolvePriorityFee(connection, transaction.instructions, transactionOptions);
+  const priorityFeeLamports = calculatePriorityFeeLamports(
+    priorityFee,
+    transactionOptions.computeUnitLimit,
+    transaction.instructions.length
+  );
+  if (priorityFeeLamports > 0) {
+    estimatedFee += priorityFeeLamports / LAMPORTS_PER_SOL;
+    logger.info(`Including priority fee of ${priorityFeeLamports} lamports`);
+  }
+  
   // Add a larger safety buffer to the fee to handle network fluctuations and rent requirements
   const safetyBuffer = 0.001; // 1,000,000 lamports (much more conservative)
   const totalFee = estimatedFee + safetyBuffer;
@@ -392,14 +453,14 @@ const transferRemainingSol = async (
   
   if (transferAmount <= 0) {
     logger.warn(`Insufficient SOL to transfer after keeping ${keepAmount} SOL and accounting for fees (${totalFee.toFixed(6)} SOL)`);
-    return { transferred: 0, signature: null };
+    return { transferred: 0, signature: null, feeLamports: 0 };
   }
   
   // Set a minimum practical transfer amount to avoid dust transfers
   const minTransferAmount = 0.000001; // 1,000 lamports
   if (transferAmount < minTransferAmount) {
     logger.warn(`Calculated transfer amount (${transferAmount.toFixed(9)} SOL) is below minimum practical amount (${minTransferAmount} SOL). Skipping transfer.`);
-    return { transferred: 0, signature: null };
+    return { transferred: 0, signature: null, feeLamports: 0 };
   }
   
   // Update the transaction with the calculated amount
@@ -412,14 +473,15 @@ const transferRemainingSol = async (
   logger.info(`Transferring ${transferAmount.toFixed(9)} SOL to ${destinationAddress} (keeping ${keepAmount} SOL plus ${totalFee.toFixed(6)} SOL for fees)`);
   
   try {
-    const signature = await sendAndConfirmTransaction(
+    const { signature, feeLamports } = await sendTransaction(
       connection,
       transaction,
-      [sourceKeypair]
+      [sourceKeypair],
+      { ...transactionOptions, priorityFee }
     );
     
     logger.info(`SOL transfer successful: ${signature}`);
-    return { transferred: transferAmount, signature };
+    return { transferred: transferAmount, signature, feeLamports };
     
   } catch (error) {
     logger.error(`Failed to transfer SOL: ${error}`);
@@ -427,6 +489,21 @@ const transferRemainingSol = async (
   }
 };
 
+/**
+ * Check that the SOL kept in a wallet drained with a separate fee payer leaves it rent-exempt
+ * The fee payer lets everything above keepSol be transferred, so the wallet is left with exactly keepSol
+ */
+export const validateKeepSol = async (connection: Connection, keepSol: number): Promise<void> => {
+  const keepLamports = Math.round(keepSol * LAMPORTS_PER_SOL);
+  if (keepLamports === 0) {
+    return;
+  }
+  const rentExemptLamports = await connection.getMinimumBalanceForRentExemption(0);
+  if (keepLamports < rentExemptLamports) {
+    throw new Error(`Keep SOL amount (${keepSol}) must be 0 or at least the rent-exempt minimum of ${rentExemptLamports / LAMPORTS_PER_SOL} SOL when a fee payer is given`);
+  }
+};
+
 /**
  * Main function to drain all assets from a wallet
  */
@@ -444,7 +521,8 @@ export const executeDrainWallet = async (
     excludeTokens?: string[];
     minBalance?: number;
     skipLog?: boolean; // 新参数：跳过生成CSV日志文件
-  } = {}
+    yes?: boolean; // Drain without asking for confirmation
+  } & TransactionOptions = {}
 ): Promise<DrainResult> => {
   const {
     dryRun = false,
@@ -455,6 +533,8 @@ export const executeDrainWallet = async (
     excludeTokens,
     minBalance = 0,
     skipLog = false,
+    yes = false,
+    ...transactionOptions
   } = options;
   
   try {
@@ -487,6 +567,10 @@ export const executeDrainWallet = async (
     logger.info(`Close accounts: ${closeAccounts ? 'YES' : 'NO'}`);
     logger.info(`Reclaim rent: ${reclaimRent ? 'YES' : 'NO'}`);
     logger.info(`Keep SOL amount: ${keepSol}`);
+    if (transactionOptions.feePayer) {
+      logger.info(`Fee payer: ${transactionOptions.feePayer.publicKey.toString()}`);
+      await validateKeepSol(connection, keepSol);
+    }
     
     // Discover wallet assets
     const assets = await discoverWalletAssets(connection, sourceKeypair.publicKey.toString());
@@ -501,7 +585,7 @@ export const executeDrainWallet = async (
     }
     
     // If total SOL balance is too low, warn about potential issues
-    if (assets.solBalance < 0.002) {
+    if (assets.solBalance < 0.002 && !transactionOptions.feePayer) {
       logger.warn(`WARNING: SOL balance (${assets.solBalance.toFixed(6)}) is very low and may be insufficient for transaction fees and rent requirements`);
     }
     
@@ -549,6 +633,7 @@ export const executeDrainWallet = async (
         },
         closedAccounts: 0,
         reclaimedRent: 0,
+        feesPaid: 0,
         finalBalance: walletBalance / LAMPORTS_PER_SOL,
         errors: [],
         signatures: {
@@ -558,12 +643,36 @@ export const executeDrainWallet = async (
       };
     }
     
+    // Show what is about to be moved and have the user type the network name
+    const wsolCount = filteredTokenAccounts.filter(acc => acc.isWSol).length;
+    const closeCount = closeAccounts && reclaimRent ? filteredTokenAccounts.length - wsolCount : 0;
+    const transactionCount = filteredTokenAccounts.length + closeCount + 1;
+    const feeLamports = transactionCount * estimateTransactionFeeLamports(2, transactionOptions);
+    const confirmed = await confirmAction(connection, {
+      action: 'drain the wallet',
+      sender: sourceKeypair.publicKey.toString(),
+      recipientCount: 1,
+      totals: [
+        `${Math.max(0, assets.solBalance - keepSol).toFixed(9)} SOL (keeping ${keepSol} SOL)`,
+        `${filteredTokenAccounts.length} token accounts`,
+      ],
+      estimatedFee: formatFeeEstimate(feeLamports, transactionOptions),
+      rows: [
+        `SOL to ${destinationAddress}`,
+        ...filteredTokenAccounts.map(acc => `${formatRawAmount(BigInt(acc.amount), acc.decimals)} ${acc.isWSol ? 'WSOL (unwrapped)' : `of ${acc.mint}`} to ${destinationAddress}`),
+      ],
+    }, yes);
+    if (!confirmed) {
+      process.exit(1);
+    }
+    
     const walletBalance = await connection.getBalance(sourceKeypair.publicKey);
     const result: DrainResult = {
       success: true,
       transferredAssets: { sol: 0, tokens: [] },
       closedAccounts: 0,
       reclaimedRent: 0,
+      feesPaid: 0,
       finalBalance: walletBalance / LAMPORTS_PER_SOL,
       errors: [],
       signatures: {
@@ -576,7 +685,8 @@ export const executeDrainWallet = async (
     const wsolAccounts = filteredTokenAccounts.filter(acc => acc.isWSol);
     for (const wsolAccount of wsolAccounts) {
       try {
-        await unwrapWSol(connection, sourceKeypair, wsolAccount);
+        const unwrapResult = await unwrapWSol(connection, sourceKeypair, wsolAccount, transactionOptions);
+        result.feesPaid += unwrapResult.feeLamports;
         const wsolAmount = Number(wsolAccount.amount) / Math.pow(10, wsolAccount.decimals);
         result.transferredAssets.sol += wsolAmount;
         result.reclaimedRent += wsolAccount.rentLamports / LAMPORTS_PER_SOL;
@@ -591,7 +701,8 @@ export const executeDrainWallet = async (
       connection,
       sourceKeypair,
       destinationAddress,
-      nonWsolAccounts
+      nonWsolAccounts,
+      transactionOptions
     );
     
     result.transferredAssets.tokens = tokenTransferResult.transferred.map(token => ({
@@ -600,18 +711,21 @@ export const executeDrainWallet = async (
       decimals: token.decimals
     }));
     result.errors.push(...tokenTransferResult.errors);
+    result.feesPaid += tokenTransferResult.feesPaid;
     
     // Step 3: Close token accounts and reclaim rent
     if (closeAccounts && reclaimRent) {
       const closeResult = await closeTokenAccounts(
         connection,
         sourceKeypair,
-        tokenTransferResult.transferred
+        tokenTransferResult.transferred,
+        transactionOptions
       );
       
       result.closedAccounts = closeResult.closed;
       result.reclaimedRent += closeResult.reclaimedRent;
       result.errors.push(...closeResult.errors);
+      result.feesPaid += closeResult.feesPaid;
     }
     
     // Step 4: Transfer remaining SOL
@@ -619,10 +733,15 @@ export const executeDrainWallet = async (
       connection,
       sourceKeypair,
       destinationAddress,
-      keepSol
+      keepSol,
+      transactionOptions
     );
     
     result.transferredAssets.sol += solTransferResult.transferred;
+    result.feesPaid += solTransferResult.feeLamports;
+    if (solTransferResult.signature) {
+      result.signatures.solTransfer = solTransferResult.signature;
+    }
     
     // Final balance check
     const finalBalance = await connection.getBalance(sourceKeypair.publicKey);
@@ -634,6 +753,7 @@ export const executeDrainWallet = async (
     logger.info(`✓ Transferred ${result.transferredAssets.tokens.length} token types to destination`);
     logger.info(`✓ Closed ${result.closedAccounts} token accounts`);
     logger.info(`✓ Reclaimed ${result.reclaimedRent} SOL in rent`);
+    logger.info(`✓ Paid ${result.feesPaid / LAMPORTS_PER_SOL} SOL in transaction fees`);
     logger.info(`✓ Source wallet remaining balance: ${result.finalBalance} SOL`);
     
     if (result.errors.length > 0) {
@@ -658,6 +778,7 @@ export const executeDrainWallet = async (
         `transfer,sol,,${result.transferredAssets.sol},${result.transferredAssets.sol > 0 ? 'success' : 'skipped'},${result.signatures.solTransfer || ''}`,
         `rent_reclaim,sol,,${result.reclaimedRent},success,`,
         `accounts_closed,count,,${result.closedAccounts},success,`,
+        `fees_paid,sol,,${result.feesPaid / LAMPORTS_PER_SOL},success,`,
       ].join('\n');
       
       fs.writeFileSync(outputPath, csvContent);
@@ -0,0 +1,167 @@
+import fs from 'fs';
+import {
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  NONCE_ACCOUNT_LENGTH,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+} from '@solana/web3.js';
+import { logger } from './utils';
+import { estimateTransactionFeeLamports, sendTransaction, TransactionOptions } from './utils.transaction';
+import { ConfirmOptions, confirmAction, formatFeeEstimate } from './utils.confirm';
+
+// Load a keypair from a JSON array file, exiting on failure
+const loadKeypair = (keypairPath: string): Keypair => {
+  try {
+    const keypairData = JSON.parse(fs.readFileSync(keypairPath, 'utf8'));
+    return Keypair.fromSecretKey(Uint8Array.from(keypairData));
+  } catch (error) {
+    logger.error(`Failed to load keypair: ${error}`);
+    process.exit(1);
+  }
+};
+
+// Parse an address, exiting on failure
+const parseAddress = (address: string, label: string): PublicKey => {
+  try {
+    return new PublicKey(address);
+  } catch (error) {
+    logger.error(`Invalid ${label} address: ${address}`);
+    process.exit(1);
+  }
+};
+
+/**
+ * Create a durable nonce account funded with its rent-exempt minimum
+ * The authority defaults to the payer
+ */
+export const executeNonceCreate = async (
+  rpcUrl: string,
+  keypairPath: string,
+  authorityAddress?: string,
+  transactionOptions: TransactionOptions & ConfirmOptions = {}
+): Promise<void> => {
+  const connection = new Connection(rpcUrl);
+  const payer = loadKeypair(keypairPath);
+  const authority = authorityAddress ? parseAddress(authorityAddress, 'authority') : payer.publicKey;
+  const nonceKeypair = Keypair.generate();
+
+  const lamports = await connection.getMinimumBalanceForRentExemption(NONCE_ACCOUNT_LENGTH);
+  const confirmed = await confirmAction(connection, {
+    action: 'create the nonce account',
+    sender: payer.publicKey.toString(),
+    recipientCount: 1,
+    totals: [`${lamports / LAMPORTS_PER_SOL} SOL of rent`],
+    estimatedFee: formatFeeEstimate(estimateTransactionFeeLamports(2, transactionOptions), transactionOptions),
+    rows: [`Nonce account ${nonceKeypair.publicKey.toString()} with authority ${authority.toString()}`],
+  }, transactionOptions.yes);
+  if (!confirmed) {
+    process.exit(1);
+  }
+
+  logger.info(`Creating nonce account ${nonceKeypair.publicKey.toString()} (rent ${lamports / LAMPORTS_PER_SOL} SOL, authority ${authority.toString()})`);
+
+  try {
+    const transaction = SystemProgram.createNonceAccount({
+      fromPubkey: payer.publicKey,
+      noncePubkey: nonceKeypair.publicKey,
+      authorizedPubkey: authority,
+      lamports,
+    });
+    const { signature, feeLamports } = await sendTransaction(connection, transaction, [payer, nonceKeypair], transactionOptions);
+
+    const nonceAccount = await connection.getNonce(nonceKeypair.publicKey, 'confirmed');
+    console.log('\nNonce account created:');
+    console.log(`  Address:    ${nonceKeypair.publicKey.toString()}`);
+    console.log(`  Authority:  ${authority.toString()}`);
+    console.log(`  Nonce:      ${nonceAccount?.nonce || 'unknown'}`);
+    console.log(`  Signature:  ${signature}`);
+    console.log(`  Fee:        ${feeLamports} lamports`);
+    console.log(`\nUse it with --nonce-account ${nonceKeypair.publicKey.toString()}`);
+  } catch (error) {
+    logger.error(`Failed to create nonce account: ${error}`);
+    process.exit(1);
+  }
+};
+
+/**
+ * Show the authority, current nonce and balance of a nonce account
+ */
+export const executeNonceShow = async (rpcUrl: string, address: string): Promise<void> => {
+  const connection = new Connection(rpcUrl);
+  const noncePubkey = parseAddress(address, 'nonce account');
+
+  const [nonceAccount, balance] = await Promise.all([
+    connection.getNonce(noncePubkey, 'confirmed'),
+    connection.getBalance(noncePubkey, 'confirmed'),
+  ]);
+  if (!nonceAccount) {
+    logger.error(`${address} is not an initialized nonce account`);
+    process.exit(1);
+  }
+
+  console.log('\nNonce account:');
+  console.log(`  Address:             ${address}`);
+  console.log(`  Authority:           ${nonceAccount.authorizedPubkey.toString()}`);
+  console.log(`  Nonce:               ${nonceAccount.nonce}`);
+  console.log(`  Fee per signature:   ${nonceAccount.feeCalculator.lamportsPerSignature} lamports`);
+  console.log(`  Balance:             ${balance / LAMPORTS_PER_SOL} SOL`);
+};
+
+/**
+ * Close a nonce account by withdrawing its whole balance
+ * The balance goes to the authority unless another destination is given
+ */
+export const executeNonceClose = async (
+  rpcUrl: string,
+  authorityKeypairPath: string,
+  address: string,
+  destinationAddress?: string,
+  transactionOptions: TransactionOptions & ConfirmOptions = {}
+): Promise<void> => {
+  const connection = new Connection(rpcUrl);
+  const authority = loadKeypair(authorityKeypairPath);
+  const noncePubkey = parseAddress(address, 'nonce account');
+  const destination = destinationAddress ? parseAddress(destinationAddress, 'destination') : authority.publicKey;
+
+  const nonceAccount = await connection.getNonce(noncePubkey, 'confirmed');
+  if (!nonceAccount) {
+    logger.error(`${address} is not an initialized nonce account`);
+    process.exit(1);
+  }
+  if (!nonceAccount.authorizedPubkey.equals(authority.publicKey)) {
+    logger.error(`The nonce authority is ${nonceAccount.authorizedPubkey.toString()}, not ${authority.publicKey.toString()}`);
+    process.exit(1);
+  }
+
+  const lamports = await connection.getBalance(noncePubkey, 'confirmed');
+  const confirmed = await confirmAction(connection, {
+    action: 'close the nonce account',
+    sender: address,
+    recipientCount: 1,
+    totals: [`${lamports / LAMPORTS_PER_SOL} SOL`],
+    estimatedFee: formatFeeEstimate(estimateTransactionFeeLamports(1, transactionOptions), transactionOptions),
+    rows: [`${lamports / LAMPORTS_PER_SOL} SOL to ${destination.toString()}`],
+  }, transactionOptions.yes);
+  if (!confirmed) {
+    process.exit(1);
+  }
+
+  logger.info(`Closing nonce account ${address}, returning ${lamports / LAMPORTS_PER_SOL} SOL to ${destination.toString()}`);
+
+  try {
+    const transaction = new Transaction().add(SystemProgram.nonceWithdraw({
+      noncePubkey,
+      authorizedPubkey: authority.publicKey,
+      toPubkey: destination,
+      lamports,
+    }));
+    const { signature } = await sendTransaction(connection, transaction, [authority], transactionOptions);
+    logger.info(`Nonce account closed: ${signature}`);
+  } catch (error) {
+    logger.error(`Failed to close nonce account: ${error}`);
+    process.exit(1);
+  }
+};
@@ -0,0 +1,240 @@
+import fs from 'fs';
+import path from 'path';
+import { Connection, Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { logger } from './utils';
+import { broadcastUntilLanded, PendingTransaction } from './utils.transaction';
+import { runSendQueue, SendQueueOptions } from './utils.queue';
+import { ConfirmOptions, confirmAction, formatFeeEstimate } from './utils.confirm';
+import {
+  decodeOfflineTransaction,
+  describeTransaction,
+  encodeOfflineTransaction,
+  isFullySigned,
+  loadOfflineFile,
+  OfflineBroadcastHooks,
+  OfflineTransactionFile,
+  saveOfflineFile,
+} from './utils.offline';
+import { openOne2ManyBroadcast } from './one2many-transfer';
+import { openMany2ManyBroadcast } from './batch-transfer';
+
+// Interface for options of the sign command
+export interface SignOptions {
+  blockhash?: string;  // Blockhash replacing the one of transactions without a durable nonce
+  output?: string;     // Path of the signed file, next to the input by default
+  yes?: boolean;       // Sign without asking for confirmation
+}
+
+// Load an offline transaction file, exiting on failure
+const loadFile = (inputPath: string): OfflineTransactionFile => {
+  try {
+    return loadOfflineFile(inputPath);
+  } catch (error) {
+    logger.error(`Failed to load transactions: ${error}`);
+    process.exit(1);
+  }
+};
+
+// Name the signed file after the input, replacing an _unsigned suffix
+const getSignedFileName = (inputPath: string): string => {
+  const directory = path.dirname(inputPath);
+  const baseName = path.basename(inputPath, path.extname(inputPath));
+  const signedName = baseName.includes('_unsigned')
+    ? baseName.replace('_unsigned', '_signed')
+    : `${baseName}_signed`;
+  return path.join(directory, `${signedName}.json`);
+};
+
+/**
+ * Sign the transactions of a file built with --build-only, without any network access
+ * Each keypair signs the transactions that require its signature; a transaction with several
+ * signers can be signed in several passes, and is ready to broadcast once every signature is present
+ */
+export const executeSign = async (
+  inputPath: string,
+  keypairPaths: string[],
+  options: SignOptions = {}
+): Promise<void> => {
+  const file = loadFile(inputPath);
+
+  const keypairs: Keypair[] = [];
+  try {
+    keypairPaths.forEach(keypairPath => {
+      keypairs.push(Keypair.fromSecretKey(Uint8Array.from(JSON.parse(fs.readFileSync(keypairPath, 'utf8')))));
+    });
+  } catch (error) {
+    logger.error(`Failed to load keypair: ${error}`);
+    process.exit(1);
+  }
+
+  if (options.blockhash) {
+    try {
+      if (bs58.decode(options.blockhash).length !== 32) {
+        throw new Error('expected 32 bytes');
+      }
+    } catch (error) {
+      logger.error(`Invalid blockhash ${options.blockhash}: ${error}`);
+      process.exit(1);
+    }
+  }
+
+  const entries = file.transactions.filter(entry => entry.state === 'unsigned');
+  if (entries.length === 0) {
+    logger.info('No transactions left to sign.');
+    return;
+  }
+
+  // Summarize every transaction from its own instructions, so the signer does not have to trust the file
+  console.log(`\n${file.command} transactions of ${file.inputFile}:`);
+  console.log('━'.repeat(80));
+  entries.forEach((entry, i) => {
+    const expiry = entry.expiry.nonceAccount
+      ? `nonce account ${entry.expiry.nonceAccount}`
+      : options.blockhash ? `blockhash ${options.blockhash}` : 'recent blockhash';
+    console.log(`${i + 1}. ${describeTransaction(decodeOfflineTransaction(entry))}; fee ${entry.feeLamports} lamports; ${expiry}`);
+  });
+  console.log('━'.repeat(80));
+  console.log(`Signers: ${keypairs.map(keypair => keypair.publicKey.toString()).join(', ')}`);
+
+  if (!options.yes) {
+    const prompts = require('prompts');
+    const response = await prompts({
+      type: 'confirm',
+      name: 'proceed',
+      message: `Sign ${entries.length} transactions?`,
+      initial: false,
+    });
+    if (!response.proceed) {
+      logger.info('Operation cancelled.');
+      return;
+    }
+  }
+
+  let signed = 0;
+  entries.forEach((entry, i) => {
+    const transaction = decodeOfflineTransaction(entry);
+
+    // A new blockhash invalidates every signature made over the old one
+    if (options.blockhash && !entry.expiry.nonceAccount && transaction.message.recentBlockhash !== options.blockhash) {
+      transaction.message.recentBlockhash = options.blockhash;
+      transaction.signatures = transaction.signatures.map(() => new Uint8Array(64));
+      entry.expiry = { blockhash: options.blockhash };
+    }
+
+    const signers = keypairs.filter(keypair => entry.signers.includes(keypair.publicKey.toString()));
+    if (signers.length > 0) {
+      transaction.sign(signers);
+    }
+
+    entry.transaction = encodeOfflineTransaction(transaction);
+    if (isFullySigned(transaction)) {
+      entry.state = 'signed';
+      signed++;
+    } else if (signers.length === 0) {
+      logger.warn(`Transaction ${i + 1} still needs signatures from ${entry.signers.join(', ')}`);
+    }
+  });
+
+  const outputPath = options.output || getSignedFileName(inputPath);
+  saveOfflineFile(outputPath, file);
+  logger.info(`${signed}/${entries.length} transactions fully signed, saved to ${outputPath}`);
+  if (signed < entries.length) {
+    logger.info(`Sign ${outputPath} again with the missing keypairs before broadcasting it`);
+  }
+};
+
+/**
+ * Broadcast the signed transactions of a file and update the progress of the command that built them
+ * The file records the state of every transaction as it goes, so an interrupted broadcast can be run again
+ */
+export const executeBroadcast = async (
+  rpcUrl: string,
+  inputPath: string,
+  options: SendQueueOptions & ConfirmOptions = {}
+): Promise<void> => {
+  const file = loadFile(inputPath);
+  logger.info(`Connecting to Solana network at ${rpcUrl}`);
+  const connection = new Connection(rpcUrl);
+
+  let hooks: OfflineBroadcastHooks;
+  try {
+    hooks = file.command === 'transfer-one2many'
+      ? await openOne2ManyBroadcast(connection, file.inputFile, file.amountUnit)
+      : openMany2ManyBroadcast(file.inputFile, file.mint, file.amountUnit);
+  } catch (error) {
+    logger.error(`Failed to open the progress of ${file.inputFile}: ${error}`);
+    process.exit(1);
+  }
+
+  const unsigned = file.transactions.filter(entry => entry.state === 'unsigned').length;
+  if (unsigned > 0) {
+    logger.warn(`${unsigned} transactions are not fully signed and are skipped`);
+  }
+  const entries = file.transactions.filter(entry => entry.state === 'signed' || entry.state === 'sent');
+
+  // Describe every transaction from its own instructions, like ff sign does, before sending any
+  if (entries.length > 0) {
+    const transactions = entries.map(decodeOfflineTransaction);
+    const feePayers = new Set(transactions.map(transaction => transaction.message.staticAccountKeys[0].toString()));
+    const confirmed = await confirmAction(connection, {
+      action: 'broadcast the transactions',
+      sender: feePayers.size === 1 ? Array.from(feePayers)[0] : `${feePayers.size} fee payers`,
+      recipientCount: entries.reduce((sum, entry) => sum + entry.rows.length, 0),
+      totals: [`${entries.length} signed ${file.command} transactions of ${file.inputFile}`],
+      estimatedFee: formatFeeEstimate(entries.reduce((sum, entry) => sum + entry.feeLamports, 0)),
+      rows: transactions.map(describeTransaction),
+    }, options.yes);
+    if (!confirmed) {
+      process.exit(1);
+    }
+  }
+  logger.info(`Broadcasting ${entries.length} transactions`);
+
+  await runSendQueue(rpcUrl, entries, options, async (entry, i) => {
+    const check = hooks.checkTransaction(entry);
+    if (check.landed) {
+      entry.state = 'confirmed';
+      saveOfflineFile(inputPath, file);
+      return;
+    }
+    if (check.skipReason) {
+      logger.warn(`Skipping transaction ${i + 1}/${entries.length}: ${check.skipReason}`);
+      entry.state = 'failed';
+      entry.error = check.skipReason;
+      saveOfflineFile(inputPath, file);
+      return;
+    }
+
+    const transaction = decodeOfflineTransaction(entry);
+    const signature = bs58.encode(transaction.signatures[0]);
+    const pending: PendingTransaction = { signature, ...entry.expiry };
+    // A transaction sent by an interrupted broadcast may have landed, so it skips preflight
+    const skipPreflight = entry.state === 'sent';
+
+    // Record the broadcast before it happens so a crash cannot lose track of the transaction
+    entry.state = 'sent';
+    entry.signature = signature;
+    hooks.onSent(entry, pending);
+    saveOfflineFile(inputPath, file);
+
+    try {
+      entry.slot = await broadcastUntilLanded(connection, transaction.serialize(), pending, skipPreflight);
+      entry.state = 'confirmed';
+      hooks.onConfirmed(entry);
+      logger.info(`Transaction ${i + 1}/${entries.length} confirmed: ${signature}`);
+    } catch (error) {
+      entry.state = 'failed';
+      entry.error = error instanceof Error ? error.message : String(error);
+      hooks.onFailed(entry, error);
+      logger.error(`Transaction ${i + 1}/${entries.length} failed: ${entry.error}`);
+    }
+    saveOfflineFile(inputPath, file);
+  });
+
+  await hooks.finish();
+
+  const confirmed = file.transactions.filter(entry => entry.state === 'confirmed').length;
+  const failed = file.transactions.filter(entry => entry.state === 'failed').length;
+  logger.info(`Broadcast complete: ${confirmed} confirmed, ${failed} failed, ${unsigned} unsigned of ${file.transactions.length} transactions`);
+};
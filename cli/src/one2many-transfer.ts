@@ -0,0 +1,637 @@
+import fs from 'fs';
+import {
+  AddressLookupTableAccount,
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { logger, getProgressFileName, saveProgress, loadProgress, readRecordsFromCSV, logTransaction } from './utils';
+import {
+  AmountUnit,
+  convertToRawAmount,
+  formatRawAmount,
+  getTokenProgramInfos,
+  getTransferAmount,
+  isValidAmount,
+  planTokenTransfers,
+  RecipientKind,
+  TokenProgramInfo,
+  TransferFeeMode,
+} from './utils.token';
+import {
+  createMemoInstruction,
+  fitsInPackedTransaction,
+  isValidMemo,
+  MEMO_COMPUTE_UNITS,
+  packInstructions,
+  sendTransaction,
+  TransactionOptions,
+} from './utils.transaction';
+import { BuildOnlyOptions, OfflineBroadcastHooks, OfflineTransaction, writeUnsignedTransactions } from './utils.offline';
+import { runSendQueue, SendQueueOptions } from './utils.queue';
+import { confirmPreflight, printPreflightSummary, runPreflight } from './utils.preflight';
+import { ConfirmOptions } from './utils.confirm';
+import { AddressListOptions, AddressScreen, loadAddressScreen, saveBlockedRows } from './utils.address-list';
+import { checkSpendingLimits, LimitedPayment, SpendingLimitOptions } from './utils.limits';
+import {
+  appendJournalEntries,
+  applyJournal,
+  computeIntentHash,
+  openJournal,
+  reconcileJournal,
+  recordSendFailure,
+} from './utils.journal';
+import {
+  closeLookupTables,
+  createLookupTables,
+  getLookupTableAddresses,
+  openLookupTableSession,
+} from './utils.lookup-table';
+
+// Estimated compute units consumed by a single SOL transfer
+const SOL_TRANSFER_COMPUTE_UNITS = 150;
+
+// Interface for recipient record from CSV
+interface RecipientRecord {
+  address: string;
+  amount: string;
+  mint?: string;            // Token mint, SOL when empty
+  memo?: string;            // Reference recorded with an SPL Memo instruction
+  transferred?: boolean;
+  signature?: string;
+  priorityFee?: number;     // Micro-lamports per compute unit paid by the transaction
+  transactionFee?: number;  // Total lamports paid by the transaction (shared by its recipients)
+}
+
+// Interface for options of one-to-many transfer runs
+export interface One2ManyTransferOptions extends SendQueueOptions, TransactionOptions, ConfirmOptions, BuildOnlyOptions, AddressListOptions, SpendingLimitOptions {
+  mint?: string;             // Mint paid to rows without a mint column value
+  amountUnit?: AmountUnit;   // Unit of the amount column, UI amounts by default
+  lookupTable?: boolean;     // Load recipient accounts from a temporary lookup table (v0 transactions)
+  memo?: string;             // Memo for rows without a memo column value
+  sender?: string;           // Sender address for --build-only, so no keypair is needed
+  transferFeeMode?: TransferFeeMode;  // For mints with a transfer fee, gross-up by default
+  expectDecimals?: number;   // Refuse to run unless every mint paid out has these decimals
+  recipientKind?: RecipientKind;  // How addresses of token rows are read, auto by default
+  allowPdaRecipients?: boolean;   // Pay off-curve (PDA) wallets instead of refusing them
+  skipNonexistent?: boolean;      // Skip SOL rows paying addresses without an account
+}
+
+// Interface for a row still to be paid, with its amount in base units
+interface PendingRow {
+  record: RecipientRecord;
+  rowIndex: number;
+  rawAmount: bigint;
+}
+
+// Interface for the instructions paying one row
+interface PlannedPayment {
+  record: RecipientRecord;
+  rowIndex: number;
+  instructions: TransactionInstruction[];
+  computeUnits: number;
+  accountCreated: boolean;
+}
+
+// Interface for payments to one recipient, always sent in the same transaction
+interface RecipientPayments {
+  address: string;
+  payments: PlannedPayment[];
+}
+
+// Validate recipient records from CSV
+const validateRecipient = (record: any, index: number): RecipientRecord => {
+  if (!record.address) {
+    throw new Error(`Missing address in row ${index + 1}`);
+  }
+  if (!isValidAmount(record.amount)) {
+    throw new Error(`Invalid amount in row ${index + 1}`);
+  }
+
+  const mint = (record.mint || '').trim();
+  if (mint) {
+    try {
+      new PublicKey(mint);
+    } catch (error) {
+      throw new Error(`Invalid mint in row ${index + 1}`);
+    }
+  }
+
+  const memo = (record.memo || '').trim();
+  if (!isValidMemo(memo)) {
+    throw new Error(`Memo longer than the limit in row ${index + 1}`);
+  }
+
+  return {
+    address: record.address,
+    amount: record.amount,
+    ...(mint ? { mint } : {}),
+    ...(memo ? { memo } : {}),
+    transferred: record.transferred || false,
+  };
+};
+
+// Hash identifying what a recipient row pays; the amount unit is part of it, as the same amount pays differently in each unit
+const getIntentHash = (record: RecipientRecord, amountUnit: AmountUnit = 'ui'): string => {
+  return computeIntentHash(record.mint || 'SOL', record.address, record.amount, amountUnit);
+};
+
+/**
+ * Plan the instructions paying each row, SOL rows as system transfers and token rows per mint
+ * Planned payments are returned in row order
+ */
+const planPayments = async (
+  connection: Connection,
+  sender: PublicKey,
+  rows: PendingRow[],
+  tokenInfos: Map<string, TokenProgramInfo>,
+  options: Pick<One2ManyTransferOptions, 'transferFeeMode' | 'recipientKind' | 'allowPdaRecipients'>
+): Promise<PlannedPayment[]> => {
+  const payments: PlannedPayment[] = rows
+    .filter(({ record }) => !record.mint)
+    .map(({ record, rowIndex, rawAmount }) => ({
+      record,
+      rowIndex,
+      instructions: [
+        SystemProgram.transfer({
+          fromPubkey: sender,
+          toPubkey: new PublicKey(record.address),
+          lamports: rawAmount,
+        }),
+      ],
+      computeUnits: SOL_TRANSFER_COMPUTE_UNITS,
+      accountCreated: false,
+    }));
+
+  for (const [mintAddress, tokenInfo] of tokenInfos) {
+    const mintRows = rows.filter(({ record }) => record.mint === mintAddress);
+    if (mintRows.length === 0) {
+      continue;
+    }
+
+    const planned = await planTokenTransfers({
+      connection,
+      sender,
+      mintAddress,
+      tokenInfo,
+      recipients: mintRows.map(row => ({ address: row.record.address, rawAmount: row.rawAmount, memo: row.record.memo, row })),
+      transferFeeMode: options.transferFeeMode,
+      recipientKind: options.recipientKind,
+      allowPdaRecipients: options.allowPdaRecipients,
+    });
+    planned.forEach(({ recipient, instructions, computeUnits, accountCreated }) => {
+      payments.push({ record: recipient.row.record, rowIndex: recipient.row.rowIndex, instructions, computeUnits, accountCreated });
+    });
+  }
+
+  // Each row carries its own memo, so packed transactions keep every reference; token rows got theirs when planned
+  payments.forEach(payment => {
+    if (payment.record.memo && !payment.record.mint) {
+      payment.instructions.push(createMemoInstruction(payment.record.memo));
+      payment.computeUnits += MEMO_COMPUTE_UNITS;
+    }
+  });
+
+  return payments.sort((a, b) => a.rowIndex - b.rowIndex);
+};
+
+/**
+ * Group payments by recipient, in the order each recipient first appears
+ * The payments of a recipient too many for one transaction are split into groups that each fit
+ */
+const groupByRecipient = (
+  payments: PlannedPayment[],
+  feePayer: PublicKey,
+  transactionOptions: TransactionOptions
+): RecipientPayments[] => {
+  const groups = new Map<string, RecipientPayments>();
+  payments.forEach(payment => {
+    const address = payment.record.address;
+    if (!groups.has(address)) {
+      groups.set(address, { address, payments: [] });
+    }
+    groups.get(address)!.payments.push(payment);
+  });
+
+  const getInstructions = (group: PlannedPayment[]) => group.flatMap(payment => payment.instructions);
+  return Array.from(groups.values()).flatMap(group => {
+    if (fitsInPackedTransaction(getInstructions(group.payments), feePayer, transactionOptions)) {
+      return [group];
+    }
+    const parts: RecipientPayments[] = [];
+    group.payments.forEach(payment => {
+      const last = parts[parts.length - 1];
+      if (last && fitsInPackedTransaction(getInstructions([...last.payments, payment]), feePayer, transactionOptions)) {
+        last.payments.push(payment);
+      } else {
+        parts.push({ address: group.address, payments: [payment] });
+      }
+    });
+    return parts;
+  });
+};
+
+// Main function to transfer SOL and tokens from one wallet to many recipients
+export const executeOne2ManyTransfer = async (
+  rpcUrl: string,
+  keypairPath: string | undefined,
+  receiversPath: string,
+  batchSize: number,
+  options: One2ManyTransferOptions = {}
+): Promise<void> => {
+  // Ensure batch size is a valid number
+  if (isNaN(batchSize) || batchSize <= 0) {
+    logger.error('Batch size must be a positive number');
+    process.exit(1);
+  }
+
+  // Connect to the Solana cluster
+  logger.info(`Connecting to Solana network at ${rpcUrl}`);
+  const connection = new Connection(rpcUrl);
+
+  if (options.buildOnly && options.lookupTable) {
+    logger.error('--lookup-table cannot be used with --build-only');
+    process.exit(1);
+  }
+
+  // Load sender keypair; building unsigned transactions only needs the sender address
+  let sender: Keypair | undefined;
+  let senderAddress: PublicKey;
+  try {
+    if (options.buildOnly && options.sender) {
+      senderAddress = new PublicKey(options.sender);
+    } else {
+      if (!keypairPath) {
+        throw new Error('--keypair is required unless --build-only is set with --sender');
+      }
+      const keypairData = JSON.parse(fs.readFileSync(keypairPath, 'utf8'));
+      sender = Keypair.fromSecretKey(Uint8Array.from(keypairData));
+      senderAddress = sender.publicKey;
+    }
+    logger.info(`Sender: ${senderAddress.toString()}`);
+  } catch (error) {
+    logger.error(`Failed to load sender: ${error}`);
+    process.exit(1);
+  }
+
+  let addressScreen: AddressScreen | undefined;
+  try {
+    addressScreen = loadAddressScreen(options);
+  } catch (error) {
+    logger.error(`Failed to load address list: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  if (options.mint) {
+    try {
+      new PublicKey(options.mint);
+    } catch (error) {
+      logger.error(`Invalid mint address: ${error}`);
+      process.exit(1);
+    }
+  }
+
+  // Load or create recipients list; rows without a mint pay the --mint token, or SOL without it
+  const progressFile = getProgressFileName(receiversPath);
+  const recipients: RecipientRecord[] = loadProgress<RecipientRecord[]>(progressFile) ||
+    readRecordsFromCSV<RecipientRecord>(receiversPath, validateRecipient);
+  if (options.mint || options.memo) {
+    recipients.forEach(record => {
+      record.mint = record.mint || options.mint;
+      record.memo = record.memo || options.memo;
+    });
+  }
+
+  // Find out whether transactions left unconfirmed by an earlier run landed before retrying them
+  const journal = openJournal(receiversPath);
+  await reconcileJournal(connection, journal);
+  if (applyJournal(journal, recipients, record => getIntentHash(record, options.amountUnit))) {
+    saveProgress(progressFile, recipients);
+  }
+
+  const pendingRecords = recipients
+    .map((record, rowIndex) => ({ record, rowIndex }))
+    .filter(({ record }) => !record.transferred);
+
+  logger.info(`Total recipients: ${recipients.length}, Pending: ${pendingRecords.length}`);
+  if (pendingRecords.length === 0) {
+    logger.info('No pending transfers. All done!');
+    return;
+  }
+
+  // Resolve the token program of every mint once
+  const mints = pendingRecords.map(({ record }) => record.mint).filter((mint): mint is string => !!mint);
+  let tokenInfos: Map<string, TokenProgramInfo>;
+  try {
+    tokenInfos = await getTokenProgramInfos(connection, mints, options.expectDecimals);
+  } catch (error) {
+    logger.error(`Failed to read token mints: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  // Convert every amount to base units exactly, using the decimals of its mint
+  const getDecimals = (record: RecipientRecord) => record.mint ? tokenInfos.get(record.mint)!.decimals : 9;
+  let invalidAmounts = 0;
+  const pendingRows: PendingRow[] = [];
+  pendingRecords.forEach(({ record, rowIndex }) => {
+    const decimals = getDecimals(record);
+    try {
+      pendingRows.push({ record, rowIndex, rawAmount: convertToRawAmount(record.amount, decimals, options.amountUnit) });
+    } catch (error) {
+      logger.error(`Invalid amount in row ${rowIndex + 1}: ${error instanceof Error ? error.message : error}`);
+      invalidAmounts++;
+    }
+  });
+  if (invalidAmounts > 0) {
+    process.exit(1);
+  }
+
+  // Check addresses, balances, accounts to create and fees before sending anything
+  const preflight = await runPreflight({
+    connection,
+    sender: senderAddress,
+    recipients: pendingRows.map(({ record, rowIndex, rawAmount }) => ({
+      address: record.address,
+      rawAmount: record.mint ? getTransferAmount(tokenInfos.get(record.mint)!, rawAmount, options.transferFeeMode) : rawAmount,
+      row: rowIndex + 1,
+      mint: record.mint,
+    })),
+    tokenInfos,
+    batchSize,
+    recipientKind: options.recipientKind,
+    allowPdaRecipients: options.allowPdaRecipients,
+    skipNonexistent: options.skipNonexistent,
+    addressScreen,
+    transactionOptions: options,
+  });
+
+  // Spending limits and outlier amounts of the rows to pay; the cumulative limit also counts
+  // rows of the same assets paid by earlier runs of the file
+  const excludedRows = new Set([...preflight.invalidRows, ...preflight.skippedRows, ...preflight.blockedRows.map(blocked => blocked.row)]);
+  const payableRows = pendingRows.filter(({ rowIndex }) => !excludedRows.has(rowIndex + 1));
+  const pendingAssets = new Set(pendingRows.map(({ record }) => record.mint || 'SOL'));
+  const paidPayments = recipients.flatMap((record, rowIndex): LimitedPayment[] => {
+    if (!record.transferred || !pendingAssets.has(record.mint || 'SOL')) {
+      return [];
+    }
+    try {
+      const decimals = getDecimals(record);
+      return [{ address: record.address, rawAmount: convertToRawAmount(record.amount, decimals, options.amountUnit), row: rowIndex + 1, mint: record.mint, decimals }];
+    } catch (error) {
+      return [];
+    }
+  });
+  try {
+    checkSpendingLimits(
+      payableRows.map(({ record, rowIndex, rawAmount }) => ({ address: record.address, rawAmount, row: rowIndex + 1, mint: record.mint, decimals: getDecimals(record) })),
+      paidPayments,
+      options,
+      preflight.errors,
+      preflight.warnings
+    );
+  } catch (error) {
+    logger.error(`Invalid spending limit: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  printPreflightSummary(preflight, options);
+  if (preflight.blockedRows.length > 0) {
+    await saveBlockedRows(receiversPath, preflight.blockedRows.map(blocked => ({ ...blocked, amount: recipients[blocked.row - 1].amount })));
+  }
+  const confirmed = await confirmPreflight(connection, preflight, {
+    action: options.buildOnly ? 'build the unsigned transactions' : 'send the payout',
+    sender: senderAddress.toString(),
+    rows: payableRows.map(({ record, rowIndex, rawAmount }) =>
+      `Row ${rowIndex + 1}: ${formatRawAmount(rawAmount, getDecimals(record))} ${record.mint ? `of ${record.mint}` : 'SOL'} to ${record.address}`),
+  }, options, options.yes);
+  if (!confirmed) {
+    process.exit(1);
+  }
+
+  // Skip recipients with invalid addresses so they don't break a whole transaction,
+  // SOL rows without a recipient account with --skip-nonexistent and rows refused by the address lists;
+  // skipped rows stay pending
+  const skippedRows = new Set(preflight.skippedRows);
+  const blockedRows = new Set(preflight.blockedRows.map(blocked => blocked.row));
+  const validRows = pendingRows.filter(({ record, rowIndex }) => {
+    if (skippedRows.has(rowIndex + 1)) {
+      logger.warn(`Recipient ${record.address} of row ${rowIndex + 1} has no account, skipping`);
+      return false;
+    }
+    if (blockedRows.has(rowIndex + 1)) {
+      logger.warn(`Recipient ${record.address} of row ${rowIndex + 1} is blocked by the address lists, skipping`);
+      return false;
+    }
+    try {
+      new PublicKey(record.address);
+      return true;
+    } catch (error) {
+      logger.error(`Invalid recipient address ${record.address}, skipping: ${error}`);
+      return false;
+    }
+  });
+
+  let payments: PlannedPayment[];
+  try {
+    payments = await planPayments(connection, senderAddress, validRows, tokenInfos, options);
+  } catch (error) {
+    logger.error(`Failed to plan transfers: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  // Pack up to batchSize recipients into each transaction, every asset of a recipient in the same one where they fit
+  const packPayments = (transactionOptions: TransactionOptions) => packInstructions(
+    groupByRecipient(payments, senderAddress, transactionOptions),
+    group => group.payments.flatMap(payment => payment.instructions),
+    senderAddress,
+    batchSize,
+    group => group.payments.reduce((sum, payment) => sum + payment.computeUnits, 0),
+    transactionOptions
+  );
+
+  // Write the transactions for offline signing; ff broadcast sends them and updates the progress file
+  if (options.buildOnly || !sender) {
+    try {
+      const transactions = packPayments(options);
+      const outputPath = await writeUnsignedTransactions(connection, 'transfer-one2many', receiversPath, transactions.map(transaction => ({
+        transaction: new Transaction().add(...transaction.instructions),
+        feePayer: senderAddress,
+        rows: transaction.items.flatMap(group => group.payments).map(payment => ({
+          rowIndex: payment.rowIndex,
+          intentHash: getIntentHash(payment.record, options.amountUnit),
+          memo: payment.record.memo,
+        })),
+      })), options, { amountUnit: options.amountUnit });
+      saveProgress(progressFile, recipients);
+      logger.info(`Sign them with: ff sign --input ${outputPath} --keypair <sender keypair>`);
+    } catch (error) {
+      logger.error(`Failed to build transactions: ${error}`);
+      process.exit(1);
+    }
+    return;
+  }
+
+  // Put the recipient accounts into temporary lookup tables so v0 transactions can reference them by index
+  const lookupTableSession = openLookupTableSession(receiversPath, sender, options);
+  let lookupTables: AddressLookupTableAccount[] | undefined;
+  if (options.lookupTable) {
+    try {
+      lookupTables = await createLookupTables(
+        connection,
+        lookupTableSession,
+        getLookupTableAddresses(payments.flatMap(payment => payment.instructions))
+      );
+    } catch (error) {
+      logger.error(`Failed to create lookup table: ${error}`);
+      await closeLookupTables(connection, lookupTableSession);
+      process.exit(1);
+    }
+  }
+  const sendOptions: TransactionOptions = { ...options, lookupTables };
+
+  let transactions: ReturnType<typeof packPayments>;
+  try {
+    transactions = packPayments(sendOptions);
+  } catch (error) {
+    logger.error(`Failed to pack transfers: ${error instanceof Error ? error.message : error}`);
+    await closeLookupTables(connection, lookupTableSession);
+    process.exit(1);
+  }
+  const totalBatches = transactions.length;
+  logger.info(`Packed ${payments.length} transfers into ${totalBatches} transactions of up to ${batchSize} recipients`);
+
+  await runSendQueue(rpcUrl, transactions, options, async (transaction, i) => {
+    const batchPayments = transaction.items.flatMap(group => group.payments);
+    const records = batchPayments.map(payment => payment.record);
+    const intents = batchPayments.map(payment => ({
+      rowIndex: payment.rowIndex,
+      intentHash: getIntentHash(payment.record, options.amountUnit),
+    }));
+    const accountsCreated = batchPayments.filter(payment => payment.accountCreated).length;
+
+    logger.info(`Processing batch ${i + 1}/${totalBatches} (${records.length} transfers, ${accountsCreated} account creations)`);
+    appendJournalEntries(journal, intents, 'pending');
+
+    try {
+      const result = await sendTransaction(
+        connection,
+        new Transaction().add(...transaction.instructions),
+        [sender],
+        {
+          ...sendOptions,
+          logIdentifier: receiversPath,
+          // Journal the signature before broadcasting so a crash cannot lead to paying twice
+          onSigned: pending => appendJournalEntries(journal, intents, 'sent', pending),
+        }
+      );
+      appendJournalEntries(journal, intents, 'confirmed', { signature: result.signature, slot: result.slot });
+
+      logTransaction(receiversPath, `Transaction confirmed`, result.signature, {
+        type: 'one2many_transfer',
+        sender: sender.publicKey.toString(),
+        recipients: records.map(r => ({ address: r.address, amount: r.amount, mint: r.mint || 'SOL', memo: r.memo })),
+        accountsCreated,
+        priorityFee: result.priorityFee,
+        computeUnitLimit: result.computeUnitLimit,
+        feeLamports: result.feeLamports,
+      });
+
+      // Mark every row in the transaction as transferred with the shared signature
+      records.forEach(record => {
+        record.transferred = true;
+        record.signature = result.signature;
+        record.priorityFee = result.priorityFee;
+        record.transactionFee = result.feeLamports;
+      });
+
+      // Save progress after each successful transaction
+      saveProgress(progressFile, recipients);
+    } catch (error) {
+      logger.error(`Failed to transfer batch ${i + 1}/${totalBatches}: ${error}`);
+      recordSendFailure(journal, intents, error);
+      // Continue with the next transaction
+    }
+
+    logger.info(`Completed batch ${i + 1}/${totalBatches}`);
+  });
+
+  // Reclaim the rent of the lookup tables, including any left open by an interrupted run
+  await closeLookupTables(connection, lookupTableSession);
+
+  // Final report
+  const remaining = recipients.filter(r => !r.transferred);
+  logger.info(`Transfer complete. ${recipients.length - remaining.length}/${recipients.length} successful transfers.`);
+  if (remaining.length > 0) {
+    logger.info(`${remaining.length} transfers pending. Run the command again to process remaining transfers.`);
+  }
+};
+
+/**
+ * Open the progress file and journal of a payout built with --build-only, for ff broadcast
+ * Broadcast transactions are journaled like in a regular run and landed rows are marked as transferred
+ */
+export const openOne2ManyBroadcast = async (
+  connection: Connection,
+  receiversPath: string,
+  amountUnit?: AmountUnit
+): Promise<OfflineBroadcastHooks> => {
+  const progressFile = getProgressFileName(receiversPath);
+  const recipients = loadProgress<RecipientRecord[]>(progressFile);
+  if (!recipients) {
+    throw new Error(`Progress file ${progressFile} not found, it is written by transfer-one2many --build-only`);
+  }
+
+  const journal = openJournal(receiversPath);
+  await reconcileJournal(connection, journal);
+  if (applyJournal(journal, recipients, record => getIntentHash(record, amountUnit))) {
+    saveProgress(progressFile, recipients);
+  }
+
+  const getIntents = (entry: OfflineTransaction) => entry.rows.map(({ rowIndex }) => ({
+    rowIndex,
+    intentHash: getIntentHash(recipients[rowIndex], amountUnit),
+  }));
+
+  return {
+    checkTransaction: entry => {
+      for (const { rowIndex, intentHash } of entry.rows) {
+        const record = recipients[rowIndex];
+        if (!record || getIntentHash(record, amountUnit) !== intentHash) {
+          return { skipReason: `row ${rowIndex + 1} changed since the transaction was built` };
+        }
+        if (record.transferred) {
+          return record.signature === entry.signature
+            ? { landed: true }
+            : { skipReason: `row ${rowIndex + 1} was already paid by ${record.signature}` };
+        }
+      }
+      return {};
+    },
+    onSent: (entry, pending) => appendJournalEntries(journal, getIntents(entry), 'sent', pending),
+    onConfirmed: entry => {
+      const records = entry.rows.map(({ rowIndex }) => recipients[rowIndex]);
+      appendJournalEntries(journal, getIntents(entry), 'confirmed', { signature: entry.signature, slot: entry.slot });
+      logTransaction(receiversPath, `Transaction confirmed`, entry.signature!, {
+        type: 'one2many_transfer',
+        recipients: records.map(r => ({ address: r.address, amount: r.amount, mint: r.mint || 'SOL', memo: r.memo })),
+        priorityFee: entry.priorityFee,
+        computeUnitLimit: entry.computeUnitLimit,
+        feeLamports: entry.feeLamports,
+      });
+      records.forEach(record => {
+        record.transferred = true;
+        record.signature = entry.signature;
+        record.priorityFee = entry.priorityFee;
+        record.transactionFee = entry.feeLamports;
+      });
+      saveProgress(progressFile, recipients);
+    },
+    onFailed: (entry, error) => recordSendFailure(journal, getIntents(entry), error),
+    finish: async () => {
+      const remaining = recipients.filter(r => !r.transferred);
+      logger.info(`${recipients.length - remaining.length}/${recipients.length} transfers of ${receiversPath} done.`);
+    },
+  };
+};
@@ -0,0 +1,405 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  Connection,
+  ParsedInstruction,
+  ParsedTransactionWithMeta,
+} from '@solana/web3.js';
+import { createObjectCsvWriter } from 'csv-writer';
+import { logger, getProgressFileName, loadProgress, readRecordsFromCSV } from './utils';
+import {
+  AmountUnit,
+  convertToRawAmount,
+  formatRawAmount,
+  getTokenProgramInfos,
+  isValidAmount,
+  TokenProgramInfo,
+} from './utils.token';
+import { readJournalEntries } from './utils.journal';
+
+// Interface for a receivers CSV row
+interface ReceiverRecord {
+  address: string;
+  amount: string;
+  mint?: string;  // Token mint, SOL when empty
+}
+
+// Interface for the progress record of a row, as written by transfer-one2many
+interface ProgressRecord extends ReceiverRecord {
+  transferred?: boolean;
+  signature?: string;
+}
+
+// Interface for a payment found in a fetched transaction
+interface Payment {
+  signature: string;
+  slot: number;
+  source: string;        // Paying wallet (token authority for token transfers)
+  destination: string;   // Receiving wallet, or token account for token transfers
+  owner?: string;        // Owner of the receiving token account
+  mint?: string;         // Token mint, not set for SOL transfers
+  rawAmount: bigint;
+  receivedAmount: bigint;  // Amount credited to the recipient, less than rawAmount when the mint charges a transfer fee
+  matched: boolean;
+}
+
+// Outcome of a row or payment: paid as expected, not paid, paid wrongly, or paid without a matching row
+type ReconcileStatus = 'ok' | 'missing' | 'mismatched' | 'extra';
+
+// Interface for a line of the reconciliation report
+interface ReconcileResult {
+  row: number | string;
+  address: string;
+  expected_amount: string;
+  paid_amount: string;
+  mint: string;
+  signature: string;
+  slot: number | string;
+  status: ReconcileStatus;
+  detail: string;
+}
+
+// Interface for reconcile options
+export interface ReconcileOptions {
+  mint?: string;     // Token mint of rows without a mint column value, SOL when not given
+  sender?: string;   // Expected paying wallet
+  amountUnit?: AmountUnit;  // Unit of the amount column, UI amounts by default
+}
+
+// Validate receiver records from CSV
+const validateReceiver = (record: any, index: number): ReceiverRecord => {
+  if (!record.address) {
+    throw new Error(`Missing address in row ${index + 2}`);
+  }
+  if (!isValidAmount(record.amount)) {
+    throw new Error(`Invalid amount in row ${index + 2}`);
+  }
+
+  const mint = (record.mint || '').trim();
+  return {
+    address: record.address,
+    amount: record.amount,
+    ...(mint ? { mint } : {}),
+  };
+};
+
+/**
+ * Extract the SOL and token transfers of a successful transaction
+ */
+const extractPayments = (
+  signature: string,
+  transaction: ParsedTransactionWithMeta
+): Payment[] => {
+  const accountKeys = transaction.transaction.message.accountKeys.map(key => key.pubkey.toString());
+  const tokenBalances = transaction.meta?.postTokenBalances || [];
+  const payments: Payment[] = [];
+
+  for (const instruction of transaction.transaction.message.instructions) {
+    if (!('parsed' in instruction)) {
+      continue;
+    }
+    const { program, parsed } = instruction as ParsedInstruction;
+    const info = parsed?.info;
+
+    if (program === 'system' && parsed.type === 'transfer') {
+      payments.push({
+        signature,
+        slot: transaction.slot,
+        source: info.source,
+        destination: info.destination,
+        rawAmount: BigInt(info.lamports),
+        receivedAmount: BigInt(info.lamports),
+        matched: false,
+      });
+    } else if ((program === 'spl-token' || program === 'spl-token-2022') &&
+      (parsed.type === 'transfer' || parsed.type === 'transferChecked' || parsed.type === 'transferCheckedWithFee')) {
+      const balance = tokenBalances.find(b => accountKeys[b.accountIndex] === info.destination);
+      const rawAmount = BigInt(parsed.type === 'transfer' ? info.amount : info.tokenAmount.amount);
+      payments.push({
+        signature,
+        slot: transaction.slot,
+        source: info.authority || info.multisigAuthority,
+        destination: info.destination,
+        owner: balance?.owner,
+        mint: info.mint || balance?.mint || 'unknown',
+        rawAmount,
+        receivedAmount: parsed.type === 'transferCheckedWithFee' ? rawAmount - BigInt(info.feeAmount.amount) : rawAmount,
+        matched: false,
+      });
+    }
+  }
+
+  return payments;
+};
+
+/**
+ * Collect every signature recorded for the receivers file, from its progress file and its journal
+ * Signatures of every journal state are included, so a payment whose confirmation was never recorded is still found
+ */
+const collectSignatures = (
+  receiversPath: string,
+  progress: ProgressRecord[] | null
+): { rowSignatures: Map<number, string>; allSignatures: Set<string> } => {
+  const rowSignatures = new Map<number, string>();
+  const allSignatures = new Set<string>();
+
+  progress?.forEach((record, index) => {
+    if (record.transferred && record.signature) {
+      rowSignatures.set(index, record.signature);
+      allSignatures.add(record.signature);
+    }
+  });
+
+  readJournalEntries(receiversPath).forEach(entry => {
+    if (!entry.signature) {
+      return;
+    }
+    allSignatures.add(entry.signature);
+    if (entry.state === 'confirmed') {
+      rowSignatures.set(entry.rowIndex, entry.signature);
+    }
+  });
+
+  return { rowSignatures, allSignatures };
+};
+
+// Check whether a payment went to the given recipient (wallet, or token account for token transfers)
+const isPaymentTo = (payment: Payment, address: string): boolean => {
+  return payment.destination === address || payment.owner === address;
+};
+
+// Save the reconciliation report to CSV, with a summary appended as comments
+const saveReportToCSV = async (
+  results: ReconcileResult[],
+  outputPath: string,
+  counts: Record<ReconcileStatus, number>
+): Promise<void> => {
+  const outputDir = path.dirname(outputPath);
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  const csvWriter = createObjectCsvWriter({
+    path: outputPath,
+    header: [
+      { id: 'row', title: 'row' },
+      { id: 'address', title: 'address' },
+      { id: 'expected_amount', title: 'expected_amount' },
+      { id: 'paid_amount', title: 'paid_amount' },
+      { id: 'mint', title: 'mint' },
+      { id: 'signature', title: 'signature' },
+      { id: 'slot', title: 'slot' },
+      { id: 'status', title: 'status' },
+      { id: 'detail', title: 'detail' },
+    ],
+  });
+  await csvWriter.writeRecords(results);
+
+  const summary = [
+    '',
+    '# Reconciliation Summary',
+    `# OK: ${counts.ok}`,
+    `# Missing: ${counts.missing}`,
+    `# Mismatched: ${counts.mismatched}`,
+    `# Extra: ${counts.extra}`,
+    `# Generated at: ${new Date().toISOString()}`,
+  ].join('\n');
+  fs.appendFileSync(outputPath, summary);
+
+  logger.info(`Reconciliation report saved to ${outputPath}`);
+};
+
+// Main function to verify a finished payout on-chain
+export const executeReconcile = async (
+  rpcUrl: string,
+  receiversPath: string,
+  options: ReconcileOptions = {}
+): Promise<void> => {
+  const { sender } = options;
+
+  logger.info(`Connecting to Solana network at ${rpcUrl}`);
+  const connection = new Connection(rpcUrl);
+
+  // Load the expected payments and the signatures recorded while sending them
+  const receivers = readRecordsFromCSV<ReceiverRecord>(receiversPath, validateReceiver);
+  receivers.forEach(receiver => {
+    receiver.mint = receiver.mint || options.mint;
+  });
+  const progress = loadProgress<ProgressRecord[]>(getProgressFileName(receiversPath));
+  const { rowSignatures, allSignatures } = collectSignatures(receiversPath, progress);
+  logger.info(`Loaded ${receivers.length} rows and ${allSignatures.size} recorded signatures`);
+
+  if (progress && progress.length !== receivers.length) {
+    logger.warn(`Progress file has ${progress.length} rows but the receivers file has ${receivers.length}, row signatures may not line up`);
+  }
+
+  // Decimals of every asset paid out, SOL has 9
+  const mints = receivers.map(receiver => receiver.mint).filter((mint): mint is string => !!mint);
+  let tokenInfos: Map<string, TokenProgramInfo>;
+  try {
+    tokenInfos = await getTokenProgramInfos(connection, mints);
+  } catch (error) {
+    logger.error(`Failed to read token mints: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  const getDecimals = (mint?: string): number => (mint ? tokenInfos.get(mint)?.decimals : undefined) ?? 9;
+  tokenInfos.forEach((tokenInfo, mint) => logger.info(`Token mint: ${mint} (${tokenInfo.decimals} decimals)`));
+
+  // Expected amounts in base units, reported paid amounts use the unit of the input file
+  const formatAmount = (rawAmount: bigint, decimals: number): string =>
+    options.amountUnit === 'raw' ? rawAmount.toString() : formatRawAmount(rawAmount, decimals);
+  let invalidAmounts = 0;
+  const expectedAmounts = receivers.map((receiver, index) => {
+    try {
+      return convertToRawAmount(receiver.amount, getDecimals(receiver.mint), options.amountUnit);
+    } catch (error) {
+      logger.error(`Invalid amount in row ${index + 2}: ${error instanceof Error ? error.message : error}`);
+      invalidAmounts++;
+      return BigInt(0);
+    }
+  });
+  if (invalidAmounts > 0) {
+    process.exit(1);
+  }
+
+  // Fetch every recorded transaction and collect the payments of those that succeeded
+  const payments: Payment[] = [];
+  const failedSignatures = new Set<string>();
+  let fetched = 0;
+  for (const signature of allSignatures) {
+    fetched++;
+    logger.info(`Fetching transaction ${fetched}/${allSignatures.size}: ${signature}`);
+    try {
+      const transaction = await connection.getParsedTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+      if (!transaction) {
+        failedSignatures.add(signature);
+        continue;
+      }
+      if (transaction.meta?.err) {
+        failedSignatures.add(signature);
+        logger.warn(`Transaction ${signature} failed on-chain: ${JSON.stringify(transaction.meta.err)}`);
+        continue;
+      }
+      payments.push(...extractPayments(signature, transaction));
+    } catch (error) {
+      logger.error(`Failed to fetch transaction ${signature}: ${error}`);
+      failedSignatures.add(signature);
+    }
+  }
+
+  const results: ReconcileResult[] = receivers.map((receiver, index) => ({
+    row: index + 2,
+    address: receiver.address,
+    expected_amount: receiver.amount,
+    paid_amount: '',
+    mint: receiver.mint || 'SOL',
+    signature: rowSignatures.get(index) || '',
+    slot: '',
+    status: 'missing',
+    detail: '',
+  }));
+
+  // Match each row to a payment of its asset to its recipient, first in the transaction recorded
+  // for the row, then in any other recorded transaction
+  const matchRow = (index: number, candidates: Payment[]): void => {
+    const receiver = receivers[index];
+    const decimals = getDecimals(receiver.mint);
+    const expected = expectedAmounts[index];
+    const available = candidates.filter(p =>
+      !p.matched && p.mint === receiver.mint && isPaymentTo(p, receiver.address)
+    );
+    // Rows paid with --transfer-fee-mode gross-up match the amount received, net rows the amount sent
+    const paysExpected = (parts: Payment[]) =>
+      parts.reduce((sum, p) => sum + p.receivedAmount, BigInt(0)) === expected ||
+      parts.reduce((sum, p) => sum + p.rawAmount, BigInt(0)) === expected;
+
+    // A row no single sender token account could cover is paid in several transfers to the same
+    // destination in one transaction, so the transfers of a transaction to a destination are summed
+    const groupKey = (p: Payment) => `${p.signature}:${p.mint || 'SOL'}:${p.destination}`;
+    const groups = new Map<string, Payment[]>();
+    available.forEach(p => groups.set(groupKey(p), [...(groups.get(groupKey(p)) || []), p]));
+    if (available.length === 0) {
+      return;
+    }
+    const single = available.find(p => paysExpected([p]));
+    const parts = single ? [single] : Array.from(groups.values()).find(paysExpected) || groups.get(groupKey(available[0]))!;
+
+    parts.forEach(p => {
+      p.matched = true;
+    });
+    const [payment] = parts;
+    const rawAmount = parts.reduce((sum, p) => sum + p.rawAmount, BigInt(0));
+    const receivedAmount = parts.reduce((sum, p) => sum + p.receivedAmount, BigInt(0));
+    const result = results[index];
+    const problems: string[] = [];
+    if (!paysExpected(parts)) {
+      problems.push(`amount ${formatAmount(receivedAmount, decimals)} instead of ${receiver.amount}`);
+    }
+    const otherSource = parts.find(p => p.source !== sender);
+    if (sender && otherSource) {
+      problems.push(`paid by ${otherSource.source}`);
+    }
+
+    result.paid_amount = formatAmount(receivedAmount === expected ? receivedAmount : rawAmount, decimals);
+    result.signature = payment.signature;
+    result.slot = payment.slot;
+    result.status = problems.length > 0 ? 'mismatched' : 'ok';
+    result.detail = problems.join('; ');
+  };
+
+  receivers.forEach((_, index) => {
+    const signature = rowSignatures.get(index);
+    if (signature) {
+      matchRow(index, payments.filter(p => p.signature === signature));
+    }
+  });
+  receivers.forEach((_, index) => {
+    if (results[index].status === 'missing') {
+      matchRow(index, payments);
+    }
+  });
+
+  results.forEach(result => {
+    if (result.status !== 'missing') {
+      return;
+    }
+    if (!result.signature) {
+      result.detail = 'no transaction recorded';
+    } else if (failedSignatures.has(result.signature)) {
+      result.detail = 'recorded transaction failed or was not found';
+    } else {
+      result.detail = 'recorded transaction has no payment to this address';
+    }
+  });
+
+  // Payments left unmatched paid an address more often than the receivers file asks for
+  payments.filter(p => !p.matched).forEach(payment => {
+    results.push({
+      row: '',
+      address: payment.owner || payment.destination,
+      expected_amount: '',
+      paid_amount: formatAmount(payment.rawAmount, getDecimals(payment.mint)),
+      mint: payment.mint || 'SOL',
+      signature: payment.signature,
+      slot: payment.slot,
+      status: 'extra',
+      detail: 'payment without a matching row',
+    });
+  });
+
+  const counts: Record<ReconcileStatus, number> = { ok: 0, missing: 0, mismatched: 0, extra: 0 };
+  results.forEach(result => counts[result.status]++);
+
+  logger.info(`Reconciliation: ${counts.ok} ok, ${counts.missing} missing, ${counts.mismatched} mismatched, ${counts.extra} extra`);
+  results.filter(r => r.status !== 'ok').slice(0, 20).forEach(r => {
+    logger.warn(`${r.status}: ${r.address}${r.row ? ` (row ${r.row})` : ''}${r.detail ? ` - ${r.detail}` : ''}`);
+  });
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').replace('T', '_').slice(0, -5);
+  const baseName = path.basename(receiversPath, path.extname(receiversPath));
+  const outputPath = path.join(process.cwd(), 'out', `${baseName}_reconcile_${timestamp}.csv`);
+  await saveReportToCSV(results, outputPath, counts);
+};
@@ -3,7 +3,6 @@ import {
   Keypair,
   PublicKey,
   Transaction,
-  sendAndConfirmTransaction,
   LAMPORTS_PER_SOL,
   SystemProgram,
 } from '@solana/web3.js';
@@ -21,13 +20,15 @@ import fs from 'fs';
 import { logger } from './utils';
 import { getTokenProgramInfo, executeAtomicTokenTransfer } from './utils.token';
 import { readWalletsFromCSV, WalletInfo } from './utils.wallet';
+import { estimateTransactionFeeLamports, sendTransaction, TransactionOptions } from './utils.transaction';
+import { ConfirmOptions, confirmAction, formatFeeEstimate } from './utils.confirm';
 import bs58 from 'bs58';
 
 // Constants
 const DEFAULT_MIN_SOL_BALANCE = 0.02; // Default minimum SOL balance to keep when wrapping SOL
 
 // Interface for wrap/unwrap options
-export interface WrapUnwrapOptions {
+export interface WrapUnwrapOptions extends TransactionOptions, ConfirmOptions {
   dryRun?: boolean;
   minSolBalance?: number;  // Minimum SOL balance to keep (in SOL)
   amount?: number;         // Amount to wrap/unwrap (in SOL)
@@ -85,6 +86,7 @@ export const wrapSol = async (
   wallet: Keypair,
   amount: number | undefined,
   minSolBalance: number = DEFAULT_MIN_SOL_BALANCE,
+  transactionOptions: TransactionOptions = {}
 ): Promise<string> => {
   // Get the associated token account for wSOL
   const associatedTokenAddress = await getAssociatedTokenAddress(
@@ -157,13 +159,14 @@ export const wrapSol = async (
   );
 
   // Execute the transaction
-  const signature = await sendAndConfirmTransaction(
+  const { signature, feeLamports } = await sendTransaction(
     connection,
     transaction,
-    [wallet]
+    [wallet],
+    transactionOptions
   );
 
-  logger.info(`SOL wrapped successfully! Signature: ${signature}`);
+  logger.info(`SOL wrapped successfully! Signature: ${signature} (fee: ${feeLamports} lamports)`);
   return signature;
 };
 
@@ -173,7 +176,8 @@ export const wrapSol = async (
 export const unwrapSol = async (
   connection: Connection,
   wallet: Keypair,
-  amount: number | undefined
+  amount: number | undefined,
+  transactionOptions: TransactionOptions = {}
 ): Promise<string> => {
   // Get the associated token account for wSOL
   const associatedTokenAddress = await getAssociatedTokenAddress(
@@ -267,13 +271,14 @@ export const unwrapSol = async (
   }
 
   // Execute the transaction
-  const signature = await sendAndConfirmTransaction(
+  const { signature, feeLamports } = await sendTransaction(
     connection,
     transaction,
-    [wallet]
+    [wallet],
+    transactionOptions
   );
 
-  logger.info(`wSOL unwrapped successfully! Signature: ${signature}`);
+  logger.info(`wSOL unwrapped successfully! Signature: ${signature} (fee: ${feeLamports} lamports)`);
   return signature;
 };
 
@@ -284,7 +289,8 @@ export const processBatchWrapUnwrap = async (
   connection: Connection,
   walletPath: string,
   isWrap: boolean,
-  minSolBalance: number = DEFAULT_MIN_SOL_BALANCE
+  minSolBalance: number = DEFAULT_MIN_SOL_BALANCE,
+  transactionOptions: TransactionOptions = {}
 ): Promise<void> => {
   // Read wallets from CSV file
   const wallets = readWalletsFromCSV(walletPath);
@@ -306,10 +312,10 @@ export const processBatchWrapUnwrap = async (
     try {
       if (isWrap) {
         // Wrap SOL to wSOL (amount=undefined means wrap all except minSolBalance)
-        await wrapSol(connection, keypair, undefined, minSolBalance);
+        await wrapSol(connection, keypair, undefined, minSolBalance, transactionOptions);
       } else {
         // Unwrap wSOL to SOL (amount=undefined means unwrap all)
-        await unwrapSol(connection, keypair, undefined);
+        await unwrapSol(connection, keypair, undefined, transactionOptions);
       }
     } catch (error) {
       logger.error(`Failed to process wallet ${wallet.address}: ${error}`);
@@ -330,14 +336,31 @@ export const executeWrapSol = async (
   options: WrapUnwrapOptions
 ): Promise<void> => {
   const connection = new Connection(rpcUrl);
+  const minSolBalance = options.minSolBalance || DEFAULT_MIN_SOL_BALANCE;
+  // Account creation, transfer and sync in each transaction
+  const feeLamports = estimateTransactionFeeLamports(3, options);
   
   // Check if we're processing a batch of wallets
   if (options.walletPath) {
+    const wallets = readWalletsFromCSV(options.walletPath);
+    const confirmed = await confirmAction(connection, {
+      action: 'wrap SOL',
+      sender: `${wallets.length} wallets`,
+      recipientCount: wallets.length,
+      totals: [`all SOL above ${minSolBalance} SOL of each wallet`],
+      estimatedFee: formatFeeEstimate(wallets.length * feeLamports, options),
+      rows: wallets.map(wallet => `${wallet.address}: all SOL above ${minSolBalance} SOL into its wSOL account`),
+    }, options.yes);
+    if (!confirmed) {
+      process.exit(1);
+    }
+
     await processBatchWrapUnwrap(
       connection,
       options.walletPath,
       true, // isWrap = true
-      options.minSolBalance || DEFAULT_MIN_SOL_BALANCE
+      minSolBalance,
+      options
     );
     return;
   }
@@ -346,11 +369,27 @@ export const executeWrapSol = async (
   const { keypair, publicKey } = getWalletKeyData(keyFile, keyBs58);
   logger.info(`Wrapping SOL to wSOL for wallet: ${publicKey.toString()}`);
 
+  const solBalance = await connection.getBalance(publicKey) / LAMPORTS_PER_SOL;
+  const amountToWrap = options.amount && options.amount > 0 ? options.amount : Math.max(0, solBalance - minSolBalance);
+  const wsolAccount = await getAssociatedTokenAddress(NATIVE_MINT, publicKey);
+  const confirmed = await confirmAction(connection, {
+    action: 'wrap SOL',
+    sender: publicKey.toString(),
+    recipientCount: 1,
+    totals: [`${amountToWrap.toFixed(9)} SOL`],
+    estimatedFee: formatFeeEstimate(feeLamports, options),
+    rows: [`${amountToWrap.toFixed(9)} SOL into wSOL account ${wsolAccount.toString()}`],
+  }, options.yes);
+  if (!confirmed) {
+    process.exit(1);
+  }
+
   await wrapSol(
     connection,
     keypair,
     options.amount,
-    options.minSolBalance || DEFAULT_MIN_SOL_BALANCE
+    minSolBalance,
+    options
   );
 };
 
@@ -364,14 +403,30 @@ export const executeUnwrapSol = async (
   options: WrapUnwrapOptions
 ): Promise<void> => {
   const connection = new Connection(rpcUrl);
+  // Sync and close of the wSOL account in each transaction
+  const feeLamports = estimateTransactionFeeLamports(2, options);
   
   // Check if we're processing a batch of wallets
   if (options.walletPath) {
+    const wallets = readWalletsFromCSV(options.walletPath);
+    const confirmed = await confirmAction(connection, {
+      action: 'unwrap wSOL',
+      sender: `${wallets.length} wallets`,
+      recipientCount: wallets.length,
+      totals: ['all wSOL of each wallet'],
+      estimatedFee: formatFeeEstimate(wallets.length * feeLamports, options),
+      rows: wallets.map(wallet => `${wallet.address}: all wSOL back to SOL`),
+    }, options.yes);
+    if (!confirmed) {
+      process.exit(1);
+    }
+
     await processBatchWrapUnwrap(
       connection,
       options.walletPath,
       false, // isWrap = false
-      options.minSolBalance || DEFAULT_MIN_SOL_BALANCE
+      options.minSolBalance || DEFAULT_MIN_SOL_BALANCE,
+      options
     );
     return;
   }
@@ -380,10 +435,31 @@ export const executeUnwrapSol = async (
   const { keypair, publicKey } = getWalletKeyData(keyFile, keyBs58);
   logger.info(`Unwrapping wSOL to SOL for wallet: ${publicKey.toString()}`);
 
+  // Partial unwrapping is not supported, so the whole wSOL balance is shown
+  const wsolAccount = await getAssociatedTokenAddress(NATIVE_MINT, publicKey);
+  let wsolBalance = '0';
+  try {
+    wsolBalance = (await connection.getTokenAccountBalance(wsolAccount)).value.uiAmountString || '0';
+  } catch (error) {
+    // No wSOL account; unwrapSol reports it
+  }
+  const confirmed = await confirmAction(connection, {
+    action: 'unwrap wSOL',
+    sender: publicKey.toString(),
+    recipientCount: 1,
+    totals: [`${wsolBalance} wSOL`],
+    estimatedFee: formatFeeEstimate(feeLamports, options),
+    rows: [`${wsolBalance} wSOL from wSOL account ${wsolAccount.toString()} back to SOL`],
+  }, options.yes);
+  if (!confirmed) {
+    process.exit(1);
+  }
+
   await unwrapSol(
     connection,
     keypair,
-    options.amount
+    options.amount,
+    options
   );
 };
 
@@ -0,0 +1,120 @@
+import fs from 'fs';
+import path from 'path';
+import { parse } from 'csv-parse/sync';
+import { PublicKey } from '@solana/web3.js';
+import { createObjectCsvWriter } from 'csv-writer';
+import { logger } from './utils';
+
+// Interface for options of commands that screen recipients against address lists
+export interface AddressListOptions {
+  denyList?: string;   // File of addresses that must never be paid
+  allowList?: string;  // File of the only addresses that may be paid
+}
+
+// Interface for the address lists recipients are screened against
+export interface AddressScreen {
+  denied: Map<string, string>;    // Address to its label (may be empty)
+  allowed?: Map<string, string>;  // Set in allow-list mode only
+}
+
+// Interface for a row refused because of its recipient address
+export interface BlockedRow {
+  row: number;       // 1-based data row of the input file, not counting a header line
+  address: string;
+  amount?: string;
+  mint?: string;
+  reason: string;
+}
+
+/**
+ * Read an address list: one address per line, or a CSV whose first column is the address and second an optional label
+ * Empty lines and lines starting with # are ignored, and a first line whose first column is "address" is a header
+ * Any other entry that is not a valid address is an error, so a mistyped entry never drops out of the list unnoticed
+ */
+export const loadAddressList = (filePath: string): Map<string, string> => {
+  const records: string[][] = parse(fs.readFileSync(filePath, 'utf8'), {
+    skip_empty_lines: true,
+    trim: true,
+    relax_column_count: true,
+    comment: '#',
+    comment_no_infix: true,  // Only lines starting with # are comments, labels may contain it
+  });
+  const addresses = new Map<string, string>();
+
+  records.forEach(([address, label], index) => {
+    if (index === 0 && address.toLowerCase() === 'address') {
+      return;
+    }
+    try {
+      new PublicKey(address);
+    } catch (error) {
+      throw new Error(`Invalid address in entry ${index + 1} of ${filePath}: ${address}`);
+    }
+    addresses.set(address, label || '');
+  });
+
+  return addresses;
+};
+
+/**
+ * Load the deny list and allow list of a command, or nothing when neither is given
+ */
+export const loadAddressScreen = (options: AddressListOptions): AddressScreen | undefined => {
+  if (!options.denyList && !options.allowList) {
+    return undefined;
+  }
+
+  const denied = options.denyList ? loadAddressList(options.denyList) : new Map<string, string>();
+  const allowed = options.allowList ? loadAddressList(options.allowList) : undefined;
+  if (options.denyList) {
+    logger.info(`Loaded ${denied.size} denied addresses from ${options.denyList}`);
+  }
+  if (options.allowList && allowed) {
+    logger.info(`Loaded ${allowed.size} allowed addresses from ${options.allowList}; any other recipient is refused`);
+  }
+
+  return { denied, allowed };
+};
+
+/**
+ * Get the reason an address may not be paid, or undefined when it may
+ * The deny list wins over the allow list
+ */
+export const getBlockReason = (screen: AddressScreen, address: string): string | undefined => {
+  const label = screen.denied.get(address);
+  if (label !== undefined) {
+    return label ? `on deny list (${label})` : 'on deny list';
+  }
+  if (screen.allowed && !screen.allowed.has(address)) {
+    return 'not on allow list';
+  }
+  return undefined;
+};
+
+/**
+ * Save the blocked rows of an input file to out/<name>_blocked_<timestamp>.csv
+ * Returns the path of the file
+ */
+export const saveBlockedRows = async (inputPath: string, rows: BlockedRow[]): Promise<string> => {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').replace('T', '_').slice(0, -5);
+  const baseName = path.basename(inputPath, path.extname(inputPath));
+  const outputPath = path.join(process.cwd(), 'out', `${baseName}_blocked_${timestamp}.csv`);
+  if (!fs.existsSync(path.dirname(outputPath))) {
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  }
+
+  const csvWriter = createObjectCsvWriter({
+    path: outputPath,
+    header: [
+      { id: 'row', title: 'row' },
+      { id: 'address', title: 'address' },
+      { id: 'amount', title: 'amount' },
+      { id: 'mint', title: 'mint' },
+      { id: 'reason', title: 'reason' },
+    ],
+  });
+  await csvWriter.writeRecords(rows);
+  logger.info(`Blocked rows saved to: ${outputPath}`);
+
+  return outputPath;
+};
@@ -0,0 +1,88 @@
+import { Connection } from '@solana/web3.js';
+import { logger } from './utils';
+import { formatRawAmount } from './utils.token';
+import { TransactionOptions } from './utils.transaction';
+import { BuildOnlyOptions } from './utils.offline';
+
+// Cluster names, keyed by the hash of the cluster's genesis block
+const CLUSTER_GENESIS_HASHES: Record<string, string> = {
+  '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d': 'mainnet-beta',
+  'EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG': 'devnet',
+  '4uhcVJyU9pJkvQyS88uRDiswHXSCkY3zQawwpjk2NsNY': 'testnet',
+};
+
+// Rows listed before the confirmation; any further rows are only counted
+const PREVIEW_ROWS = 5;
+
+// Interface for options of commands that ask for confirmation before changing state
+export interface ConfirmOptions {
+  yes?: boolean;  // Proceed without asking for confirmation
+}
+
+// Interface for what a command is about to do, shown before the confirmation
+export interface ConfirmationSummary {
+  action: string;          // Completes "Type <network> to ...", e.g. "send the payout"
+  sender: string;          // Address of the sending wallet, or a description of several
+  recipientCount: number;
+  totals: string[];        // Total of every asset, with its unit
+  estimatedFee: string;
+  rows: string[];          // One line per row; only the first few are shown
+}
+
+/**
+ * Get the name of the cluster an RPC endpoint belongs to from its genesis hash, unknown for local or private clusters
+ */
+export const getClusterName = async (connection: Connection): Promise<{ name: string; genesisHash: string }> => {
+  const genesisHash = await connection.getGenesisHash();
+  return { name: CLUSTER_GENESIS_HASHES[genesisHash] || 'unknown', genesisHash };
+};
+
+/**
+ * Format an estimated fee for the summary, noting when it is an upper bound and who pays it
+ */
+export const formatFeeEstimate = (feeLamports: number, transactionOptions: TransactionOptions & BuildOnlyOptions = {}): string => {
+  const bound = transactionOptions.priorityFee === 'auto' ? 'up to ' : '';
+  const feePayer = transactionOptions.feePayer?.publicKey || transactionOptions.feePayerAddress;
+  const payer = feePayer ? ` (paid by ${feePayer.toString()})` : '';
+  return `${bound}${formatRawAmount(BigInt(feeLamports), 9)} SOL${payer}`;
+};
+
+/**
+ * Show what a command is about to do and have the user type the network name to go ahead
+ * Returns false when the user types anything else or cancels; `yes` only prints the summary
+ */
+export const confirmAction = async (connection: Connection, summary: ConfirmationSummary, yes: boolean = false): Promise<boolean> => {
+  const cluster = await getClusterName(connection);
+
+  console.log('\nConfirmation:');
+  console.log('━'.repeat(80));
+  console.log(`Network:               ${cluster.name} (genesis ${cluster.genesisHash})`);
+  console.log(`Sender:                ${summary.sender}`);
+  console.log(`Recipients:            ${summary.recipientCount}`);
+  summary.totals.forEach((total, i) => {
+    console.log(`${i === 0 ? 'Total:' : ''}`.padEnd(23) + total);
+  });
+  console.log(`Estimated fees:        ${summary.estimatedFee}`);
+  summary.rows.slice(0, PREVIEW_ROWS).forEach(row => console.log(`  ${row}`));
+  if (summary.rows.length > PREVIEW_ROWS) {
+    console.log(`  ... and ${summary.rows.length - PREVIEW_ROWS} more`);
+  }
+  console.log('━'.repeat(80));
+
+  if (yes) {
+    return true;
+  }
+
+  const prompts = require('prompts');
+  const response = await prompts({
+    type: 'text',
+    name: 'confirmation',
+    message: `Type "${cluster.name}" to ${summary.action}`,
+  });
+
+  if ((response.confirmation || '').trim() !== cluster.name) {
+    logger.info('Operation cancelled.');
+    return false;
+  }
+  return true;
+};
@@ -0,0 +1,189 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Connection } from '@solana/web3.js';
+import { logger } from './utils';
+import { PendingTransaction, waitForTransactionLanding } from './utils.transaction';
+
+// State of a payout row: queued, signed and broadcast, confirmed on-chain, or failed before landing
+export type JournalState = 'pending' | 'sent' | 'confirmed' | 'failed';
+
+// Interface for a single journal line
+export interface JournalEntry {
+  rowIndex: number;              // Index of the row in the input file
+  intentHash: string;            // Hash of what the row pays, to detect rows changed between runs
+  state: JournalState;
+  signature?: string;
+  lastValidBlockHeight?: number; // Set for sent entries so their landing can be decided on resume
+  nonceAccount?: string;         // Set instead for sent entries signed with a durable nonce
+  nonce?: string;
+  blockhash?: string;            // Set instead for sent entries signed offline with a given blockhash
+  slot?: number;                 // Slot the transaction landed in
+  error?: string;
+  timestamp: string;
+}
+
+// Interface for the payout journal of an input file
+export interface PayoutJournal {
+  file: string;
+  entries: Map<number, JournalEntry>;  // Latest entry of each row
+}
+
+// Interface for a row being paid out
+export interface PayoutIntent {
+  rowIndex: number;
+  intentHash: string;
+}
+
+// Interface for records whose completion is restored from the journal
+export interface JournaledRecord {
+  transferred?: boolean;
+  signature?: string;
+}
+
+// Create a journal file name based on the input file
+export const getJournalFileName = (filePath: string): string => {
+  const directory = path.dirname(filePath);
+  const baseName = path.basename(filePath, path.extname(filePath));
+  return path.join(directory, `${baseName}_journal.jsonl`);
+};
+
+/**
+ * Hash the parts that define a payout (asset, recipient, amount)
+ */
+export const computeIntentHash = (...parts: (string | number)[]): string => {
+  return crypto.createHash('sha256').update(parts.join('|')).digest('hex');
+};
+
+/**
+ * Read every entry of the journal of an input file in the order they were written
+ * A line cut short by a crash is skipped, the entries before it are still valid
+ */
+export const readJournalEntries = (inputFilePath: string): JournalEntry[] => {
+  const file = getJournalFileName(inputFilePath);
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+
+  const entries: JournalEntry[] = [];
+  const lines = fs.readFileSync(file, 'utf8').split('\n').filter(line => line.trim());
+  lines.forEach((line, index) => {
+    try {
+      entries.push(JSON.parse(line) as JournalEntry);
+    } catch (error) {
+      logger.warn(`Skipping unreadable line ${index + 1} of journal ${file}`);
+    }
+  });
+  logger.info(`Found journal: ${file} (${entries.length} entries)`);
+
+  return entries;
+};
+
+/**
+ * Open the journal of an input file, keeping the latest entry of each row
+ */
+export const openJournal = (inputFilePath: string): PayoutJournal => {
+  const entries = new Map<number, JournalEntry>();
+  readJournalEntries(inputFilePath).forEach(entry => entries.set(entry.rowIndex, entry));
+
+  return { file: getJournalFileName(inputFilePath), entries };
+};
+
+/**
+ * Append one entry per intent to the journal
+ * The write is flushed to disk before returning, so an entry recorded before a broadcast survives a crash
+ */
+export const appendJournalEntries = (
+  journal: PayoutJournal,
+  intents: PayoutIntent[],
+  state: JournalState,
+  details: Pick<JournalEntry, 'signature' | 'lastValidBlockHeight' | 'nonceAccount' | 'nonce' | 'blockhash' | 'slot' | 'error'> = {}
+): void => {
+  const timestamp = new Date().toISOString();
+  const entries = intents.map(({ rowIndex, intentHash }) => ({ rowIndex, intentHash, state, ...details, timestamp }));
+
+  const fd = fs.openSync(journal.file, 'a');
+  try {
+    fs.writeSync(fd, entries.map(entry => JSON.stringify(entry)).join('\n') + '\n');
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  entries.forEach(entry => journal.entries.set(entry.rowIndex, entry));
+};
+
+/**
+ * Decide the outcome of every transaction left in the sent state by an earlier run
+ * Each transaction is tracked until it lands or its blockhash expires (or its nonce advances), so no row is retried
+ * while its earlier transaction can still land
+ */
+export const reconcileJournal = async (connection: Connection, journal: PayoutJournal): Promise<void> => {
+  const sentEntries = Array.from(journal.entries.values()).filter(
+    entry => entry.state === 'sent' && entry.signature && (entry.lastValidBlockHeight || entry.nonceAccount || entry.blockhash)
+  );
+  if (sentEntries.length === 0) {
+    return;
+  }
+
+  const signatures = Array.from(new Set(sentEntries.map(entry => entry.signature!)));
+  logger.info(`Checking ${signatures.length} transactions sent in a previous run before retrying...`);
+
+  for (const signature of signatures) {
+    const entriesOfSignature = sentEntries.filter(entry => entry.signature === signature);
+    const { lastValidBlockHeight, nonceAccount, nonce, blockhash } = entriesOfSignature[0];
+    const pending: PendingTransaction = { signature, lastValidBlockHeight, nonceAccount, nonce, blockhash };
+    const { status, slot } = await waitForTransactionLanding(connection, pending);
+
+    if (status === 'landed') {
+      logger.info(`Transaction ${signature} landed in slot ${slot}, marking ${entriesOfSignature.length} transfers as done`);
+      appendJournalEntries(journal, entriesOfSignature, 'confirmed', { signature, slot });
+    } else {
+      logger.info(`Transaction ${signature} ${status === 'failed' ? 'failed' : 'expired without landing'}, transfers will be retried`);
+      appendJournalEntries(journal, entriesOfSignature, 'failed', { signature, slot, error: status });
+    }
+  }
+};
+
+/**
+ * Mark records confirmed in the journal as transferred
+ * Entries whose intent no longer matches the row are ignored with a warning, since the row now pays something else
+ * Returns true if any record changed
+ */
+export const applyJournal = <T extends JournaledRecord>(
+  journal: PayoutJournal,
+  records: T[],
+  getIntentHash: (record: T) => string
+): boolean => {
+  let changed = false;
+
+  records.forEach((record, rowIndex) => {
+    const entry = journal.entries.get(rowIndex);
+    if (!entry) {
+      return;
+    }
+    if (entry.intentHash !== getIntentHash(record)) {
+      logger.warn(`Row ${rowIndex + 2} changed since it was journaled as ${entry.state}, treating it as a new transfer`);
+      return;
+    }
+    if (entry.state === 'confirmed' && !record.transferred) {
+      record.transferred = true;
+      record.signature = entry.signature;
+      changed = true;
+    }
+  });
+
+  return changed;
+};
+
+/**
+ * Record a failed send
+ * Rows whose transaction was already broadcast stay in the sent state, since the error does not prove
+ * the transaction cannot land; the next run reconciles them against the chain
+ */
+export const recordSendFailure = (journal: PayoutJournal, intents: PayoutIntent[], error: unknown): void => {
+  const unsentIntents = intents.filter(intent => journal.entries.get(intent.rowIndex)?.state !== 'sent');
+  if (unsentIntents.length > 0) {
+    appendJournalEntries(journal, unsentIntents, 'failed', { error: String(error) });
+  }
+};
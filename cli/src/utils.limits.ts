@@ -0,0 +1,123 @@
+import { AmountUnit, convertToRawAmount, formatRawAmount } from './utils.token';
+
+// Robust z-score beyond which an amount is an outlier
+export const DEFAULT_OUTLIER_Z_SCORE = 3.5;
+
+// Outliers are only looked for among at least this many amounts of an asset; among fewer, one mistyped
+// amount next to equal ones cannot reach the default z-score
+const MIN_OUTLIER_SAMPLE = 5;
+
+// Scale of the median absolute deviation to a standard deviation of normally distributed amounts
+const MEDIAN_DEVIATION_SCALE = 1.4826;
+
+// Scale of the mean absolute deviation to a standard deviation, for when most amounts are equal
+const MEAN_DEVIATION_SCALE = 1.2533;
+
+// Interface for options of commands that guard payouts with spending limits
+export interface SpendingLimitOptions {
+  maxPerRecipient?: string;  // Most one address may receive of an asset in a run, in the unit of the amount column
+  maxTotal?: string;         // Most of an asset paid out in a run
+  maxCumulative?: string;    // Most one address may receive of an asset across all runs of the input file
+  outlierZScore?: number;    // Refuse amounts with a robust z-score (distance from the median) above this
+  allowOutliers?: boolean;   // Pay outliers anyway, only warning about them
+}
+
+// Interface for a payment checked against the spending limits
+export interface LimitedPayment {
+  address: string;
+  rawAmount: bigint;  // Amount the recipient is paid, in base units
+  row: number;        // 1-based data row of the input file, not counting a header line, for reporting
+  mint?: string;      // Token mint, SOL when not given
+  decimals: number;
+}
+
+// Median of a list of numbers
+const getMedian = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Sum the amounts paid to every address
+const sumByAddress = (payments: LimitedPayment[]): Map<string, bigint> => {
+  const totals = new Map<string, bigint>();
+  payments.forEach(({ address, rawAmount }) => totals.set(address, (totals.get(address) ?? BigInt(0)) + rawAmount));
+  return totals;
+};
+
+/**
+ * Check the payments of a run against the spending limits, one asset at a time
+ * Limits are given in the unit of the amount column; `paid` holds rows paid by earlier runs of the same file
+ */
+export const checkSpendingLimits = (
+  pending: LimitedPayment[],
+  paid: LimitedPayment[],
+  options: SpendingLimitOptions & { amountUnit?: AmountUnit },
+  errors: string[],
+  warnings: string[]
+): void => {
+  const { amountUnit, outlierZScore = DEFAULT_OUTLIER_Z_SCORE } = options;
+  const assets = Array.from(new Set(pending.map(payment => payment.mint || 'SOL')));
+
+  for (const asset of assets) {
+    const assetPending = pending.filter(payment => (payment.mint || 'SOL') === asset);
+    const assetPaid = paid.filter(payment => (payment.mint || 'SOL') === asset);
+    const { decimals } = assetPending[0];
+    const toRaw = (limit: string | undefined) => limit === undefined ? undefined : convertToRawAmount(limit, decimals, amountUnit);
+    const format = (rawAmount: bigint) => `${formatRawAmount(rawAmount, decimals)} ${asset === 'SOL' ? 'SOL' : `of ${asset}`}`;
+    const runTotals = sumByAddress(assetPending);
+
+    const maxPerRecipient = toRaw(options.maxPerRecipient);
+    if (maxPerRecipient !== undefined) {
+      const rows = assetPending.filter(({ address }) => runTotals.get(address)! > maxPerRecipient).map(({ row }) => row);
+      if (rows.length > 0) {
+        errors.push(`${rows.length} rows pay an address more than the --max-per-recipient limit of ${format(maxPerRecipient)} (rows ${rows.join(', ')})`);
+      }
+    }
+
+    const maxTotal = toRaw(options.maxTotal);
+    const total = assetPending.reduce((sum, { rawAmount }) => sum + rawAmount, BigInt(0));
+    if (maxTotal !== undefined && total > maxTotal) {
+      errors.push(`Payout of ${format(total)} exceeds the --max-total limit of ${format(maxTotal)}`);
+    }
+
+    const maxCumulative = toRaw(options.maxCumulative);
+    if (maxCumulative !== undefined) {
+      const paidTotals = sumByAddress(assetPaid);
+      const rows = assetPending
+        .filter(({ address }) => runTotals.get(address)! + (paidTotals.get(address) ?? BigInt(0)) > maxCumulative)
+        .map(({ row }) => row);
+      if (rows.length > 0) {
+        errors.push(`${rows.length} rows take an address past the --max-cumulative limit of ${format(maxCumulative)}, counting rows paid by earlier runs (rows ${rows.join(', ')})`);
+      }
+    }
+
+    // Amounts far from the rest of the file, such as 1000 typed for 0.1000; the median and its deviation
+    // are measured robustly, so a mistyped amount cannot pull them towards itself and hide
+    const amounts = [...assetPending, ...assetPaid].map(({ rawAmount }) => Number(rawAmount));
+    if (amounts.length < MIN_OUTLIER_SAMPLE) {
+      continue;
+    }
+    const median = getMedian(amounts);
+    const deviations = amounts.map(amount => Math.abs(amount - median));
+    const medianDeviation = getMedian(deviations);
+    // The median deviation is 0 when more than half the amounts are equal, so the mean deviation is used instead
+    const scale = medianDeviation > 0
+      ? medianDeviation * MEDIAN_DEVIATION_SCALE
+      : deviations.reduce((sum, deviation) => sum + deviation, 0) / deviations.length * MEAN_DEVIATION_SCALE;
+    if (scale === 0) {
+      continue;
+    }
+    const outlierRows = assetPending
+      .filter(({ rawAmount }) => Math.abs(Number(rawAmount) - median) / scale > outlierZScore)
+      .map(({ row }) => row);
+    if (outlierRows.length > 0) {
+      const message = `${outlierRows.length} rows pay amounts with a robust z-score above ${outlierZScore}, far from the median of ${format(BigInt(Math.round(median)))} (rows ${outlierRows.join(', ')})`;
+      if (options.allowOutliers) {
+        warnings.push(`${message}, paid because of --allow-outliers`);
+      } else {
+        errors.push(`${message}; check them or pass --allow-outliers`);
+      }
+    }
+  }
+};
@@ -0,0 +1,248 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
+  Connection,
+  Keypair,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { logger, loadProgress, saveProgress } from './utils';
+import { sendTransaction, SendTransactionResult, TransactionOptions } from './utils.transaction';
+
+// Maximum number of addresses one lookup table holds
+const MAX_LOOKUP_TABLE_ADDRESSES = 256;
+
+// Addresses added to a lookup table per extend transaction
+const EXTEND_CHUNK_SIZE = 20;
+
+// Slots a deactivated lookup table waits before it can be closed (length of the SlotHashes sysvar plus one)
+const DEACTIVATION_COOLDOWN_SLOTS = 513;
+
+// Interval between slot checks while waiting for a lookup table to activate or cool down
+const SLOT_POLL_INTERVAL_MS = 5000;
+
+// Lifecycle step of a temporary lookup table
+export type LookupTableAction = 'create' | 'extend' | 'deactivate' | 'close';
+
+// Interface for a temporary lookup table that is not closed yet
+interface OpenLookupTable {
+  address: string;
+  deactivated: boolean;
+}
+
+// Interface for the temporary lookup tables of a run
+export interface LookupTableSession {
+  authority: Keypair;                     // Creates, pays for and closes the tables
+  stateFile: string;                      // Tables not closed yet, kept so a later run can close them
+  outputPath: string;                     // CSV with one line per lifecycle step
+  open: OpenLookupTable[];
+  transactionOptions: TransactionOptions;
+}
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Open the lookup table session of an input file
+ * Tables left open by an interrupted run are picked up, so they are closed at the end of this run
+ */
+export const openLookupTableSession = (
+  inputFilePath: string,
+  authority: Keypair,
+  transactionOptions: TransactionOptions
+): LookupTableSession => {
+  const directory = path.dirname(inputFilePath);
+  const baseName = path.basename(inputFilePath, path.extname(inputFilePath));
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').replace('T', '_').slice(0, -5);
+
+  const stateFile = path.join(directory, `${baseName}_lookup_tables.json`);
+  const open = loadProgress<OpenLookupTable[]>(stateFile) || [];
+  if (open.length > 0) {
+    logger.info(`Found ${open.length} lookup tables left open by a previous run, they will be closed at the end of this run`);
+  }
+
+  return {
+    authority,
+    stateFile,
+    outputPath: path.join(process.cwd(), 'out', `${baseName}_lookup_tables_${timestamp}.csv`),
+    open,
+    transactionOptions,
+  };
+};
+
+/**
+ * Append a lifecycle step to the output CSV and save the tables still open
+ */
+const recordLookupTableStep = (
+  session: LookupTableSession,
+  table: string,
+  action: LookupTableAction,
+  result: SendTransactionResult,
+  addressCount: number
+): void => {
+  if (!fs.existsSync(session.outputPath)) {
+    fs.mkdirSync(path.dirname(session.outputPath), { recursive: true });
+    fs.writeFileSync(session.outputPath, 'table,action,addresses,signature,slot,fee_lamports,timestamp\n');
+    logger.info(`Lookup table lifecycle is recorded in ${session.outputPath}`);
+  }
+  fs.appendFileSync(
+    session.outputPath,
+    `${table},${action},${addressCount},${result.signature},${result.slot ?? ''},${result.feeLamports},${new Date().toISOString()}\n`
+  );
+  saveProgress(session.stateFile, session.open);
+};
+
+/**
+ * Send a single lookup table instruction as a legacy transaction signed by the authority
+ */
+const sendLookupTableInstruction = (
+  connection: Connection,
+  session: LookupTableSession,
+  instruction: TransactionInstruction
+): Promise<SendTransactionResult> => {
+  return sendTransaction(connection, new Transaction().add(instruction), [session.authority], {
+    ...session.transactionOptions,
+    versioned: false,
+    lookupTables: undefined,
+  });
+};
+
+/**
+ * Wait until the cluster reaches the given slot
+ */
+const waitForSlot = async (connection: Connection, slot: number): Promise<void> => {
+  while ((await connection.getSlot('confirmed')) < slot) {
+    await sleep(SLOT_POLL_INTERVAL_MS);
+  }
+};
+
+/**
+ * Collect the accounts of the instructions worth loading from a lookup table
+ * Signers and invoked programs have to stay in the message itself and are left out
+ */
+export const getLookupTableAddresses = (instructions: TransactionInstruction[]): PublicKey[] => {
+  const programIds = new Set(instructions.map(instruction => instruction.programId.toString()));
+  const addresses = new Map<string, PublicKey>();
+
+  instructions.forEach(instruction => {
+    instruction.keys
+      .filter(key => !key.isSigner && !programIds.has(key.pubkey.toString()))
+      .forEach(key => addresses.set(key.pubkey.toString(), key.pubkey));
+  });
+
+  return Array.from(addresses.values());
+};
+
+/**
+ * Create lookup tables holding the given addresses, up to 256 per table, and wait until they are usable
+ * Every table is recorded as open as soon as it is created, so it is closed even if a later step fails
+ */
+export const createLookupTables = async (
+  connection: Connection,
+  session: LookupTableSession,
+  addresses: PublicKey[]
+): Promise<AddressLookupTableAccount[]> => {
+  const authority = session.authority.publicKey;
+  const tables: AddressLookupTableAccount[] = [];
+
+  for (let start = 0; start < addresses.length; start += MAX_LOOKUP_TABLE_ADDRESSES) {
+    const tableAddresses = addresses.slice(start, start + MAX_LOOKUP_TABLE_ADDRESSES);
+
+    const [createInstruction, lookupTable] = AddressLookupTableProgram.createLookupTable({
+      authority,
+      payer: authority,
+      recentSlot: await connection.getSlot('finalized'),
+    });
+    const createResult = await sendLookupTableInstruction(connection, session, createInstruction);
+    session.open.push({ address: lookupTable.toString(), deactivated: false });
+    recordLookupTableStep(session, lookupTable.toString(), 'create', createResult, 0);
+    logger.info(`Created lookup table ${lookupTable.toString()} for ${tableAddresses.length} addresses`);
+
+    let lastExtendedSlot = createResult.slot || 0;
+    for (let offset = 0; offset < tableAddresses.length; offset += EXTEND_CHUNK_SIZE) {
+      const chunk = tableAddresses.slice(offset, offset + EXTEND_CHUNK_SIZE);
+      const extendResult = await sendLookupTableInstruction(connection, session, AddressLookupTableProgram.extendLookupTable({
+        lookupTable,
+        authority,
+        payer: authority,
+        addresses: chunk,
+      }));
+      recordLookupTableStep(session, lookupTable.toString(), 'extend', extendResult, chunk.length);
+      lastExtendedSlot = Math.max(lastExtendedSlot, extendResult.slot || 0);
+    }
+
+    // Addresses become usable in the slot after they were added
+    await waitForSlot(connection, lastExtendedSlot + 1);
+    const { value: table } = await connection.getAddressLookupTable(lookupTable);
+    if (!table || table.state.addresses.length !== tableAddresses.length) {
+      throw new Error(`Lookup table ${lookupTable.toString()} does not hold the expected ${tableAddresses.length} addresses`);
+    }
+    tables.push(table);
+  }
+
+  return tables;
+};
+
+/**
+ * Deactivate and close every open lookup table of the session to reclaim its rent
+ * Closing has to wait until the deactivation cooled down (about 513 slots); a table that cannot be
+ * closed stays recorded as open and is closed by a later run
+ */
+export const closeLookupTables = async (connection: Connection, session: LookupTableSession): Promise<void> => {
+  if (session.open.length === 0) {
+    return;
+  }
+
+  const authority = session.authority.publicKey;
+  const closable: { table: OpenLookupTable; closableSlot: number }[] = [];
+
+  for (const table of [...session.open]) {
+    try {
+      const lookupTable = new PublicKey(table.address);
+      const { value: account } = await connection.getAddressLookupTable(lookupTable);
+      if (!account) {
+        logger.info(`Lookup table ${table.address} is already closed`);
+        session.open = session.open.filter(openTable => openTable !== table);
+        saveProgress(session.stateFile, session.open);
+        continue;
+      }
+
+      let deactivationSlot = Number(account.state.deactivationSlot);
+      if (account.isActive()) {
+        const result = await sendLookupTableInstruction(connection, session,
+          AddressLookupTableProgram.deactivateLookupTable({ lookupTable, authority })
+        );
+        table.deactivated = true;
+        recordLookupTableStep(session, table.address, 'deactivate', result, account.state.addresses.length);
+        deactivationSlot = result.slot || await connection.getSlot('confirmed');
+      }
+      closable.push({ table, closableSlot: deactivationSlot + DEACTIVATION_COOLDOWN_SLOTS });
+    } catch (error) {
+      logger.error(`Failed to deactivate lookup table ${table.address}, it stays open for the next run: ${error}`);
+    }
+  }
+
+  if (closable.length === 0) {
+    return;
+  }
+
+  const closableSlot = Math.max(...closable.map(entry => entry.closableSlot));
+  logger.info(`Waiting for ${closable.length} lookup tables to cool down before closing them (until slot ${closableSlot}, about 4 minutes)...`);
+  await waitForSlot(connection, closableSlot);
+
+  for (const { table } of closable) {
+    try {
+      const lookupTable = new PublicKey(table.address);
+      const result = await sendLookupTableInstruction(connection, session,
+        AddressLookupTableProgram.closeLookupTable({ lookupTable, authority, recipient: authority })
+      );
+      session.open = session.open.filter(openTable => openTable !== table);
+      recordLookupTableStep(session, table.address, 'close', result, 0);
+      logger.info(`Closed lookup table ${table.address}, rent returned to ${authority.toString()}`);
+    } catch (error) {
+      logger.error(`Failed to close lookup table ${table.address}, it stays open for the next run: ${error}`);
+    }
+  }
+};
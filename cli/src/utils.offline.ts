@@ -0,0 +1,225 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { logger, saveProgress } from './utils';
+import { AmountUnit, formatRawAmount } from './utils.token';
+import { buildUnsignedTransaction, MEMO_PROGRAM_ID, PendingTransaction, TransactionOptions } from './utils.transaction';
+
+// Commands that can build transactions for offline signing
+export type OfflineCommand = 'transfer-one2many' | 'transfer-many2many';
+
+// State of an offline transaction: built, fully signed, broadcast, landed, or failed or expired
+export type OfflineTransactionState = 'unsigned' | 'signed' | 'sent' | 'confirmed' | 'failed';
+
+// Interface for a row of the input file paid by an offline transaction
+export interface OfflineRow {
+  rowIndex: number;
+  intentHash?: string;  // Hash of what the row pays, checked against the input file before broadcast
+  memo?: string;        // Memo attached to the row's transfer
+}
+
+// Interface for one transaction of an offline transaction file
+export interface OfflineTransaction {
+  rows: OfflineRow[];
+  transaction: string;                            // Base64 serialized transaction, signatures added by ff sign
+  signers: string[];                              // Addresses whose signatures are required
+  expiry: Omit<PendingTransaction, 'signature'>;  // Durable nonce or blockhash validity of the transaction
+  priorityFee: number;
+  computeUnitLimit?: number;
+  feeLamports: number;
+  state: OfflineTransactionState;
+  signature?: string;
+  slot?: number;
+  error?: string;
+}
+
+// Interface for a file of transactions built with --build-only
+export interface OfflineTransactionFile {
+  command: OfflineCommand;
+  inputFile: string;        // Input file of the run, whose progress and journal ff broadcast updates
+  mint?: string;            // Token mint of a transfer-many2many run, SOL when not given
+  amountUnit?: AmountUnit;  // Unit of the amount column of the input file, UI amounts when not given
+  createdAt: string;
+  transactions: OfflineTransaction[];
+}
+
+// Interface for options of commands that can build transactions for offline signing
+export interface BuildOnlyOptions {
+  buildOnly?: boolean;          // Write unsigned transactions to a file instead of sending them
+  nonceAccounts?: PublicKey[];  // Durable nonce accounts, one per built transaction
+  feePayerAddress?: PublicKey;  // Fee payer of the built transactions, given without its keypair as it signs offline
+}
+
+// Interface for the check of an offline transaction against the progress of its command
+export interface OfflineTransactionCheck {
+  landed?: boolean;     // The transaction already landed, as recorded by an earlier broadcast
+  skipReason?: string;  // Why the transaction must not be sent
+}
+
+// Interface for the bookkeeping ff broadcast does for the command that built the transactions
+export interface OfflineBroadcastHooks {
+  checkTransaction: (entry: OfflineTransaction) => OfflineTransactionCheck;
+  onSent: (entry: OfflineTransaction, pending: PendingTransaction) => void;
+  onConfirmed: (entry: OfflineTransaction) => void;
+  onFailed: (entry: OfflineTransaction, error: unknown) => void;
+  finish: () => Promise<void>;
+}
+
+// Interface for a transaction to build for offline signing
+export interface OfflineTransactionRequest {
+  transaction: Transaction;
+  feePayer: PublicKey;
+  rows: OfflineRow[];
+}
+
+/**
+ * Decode a serialized transaction of an offline transaction file
+ */
+export const decodeOfflineTransaction = (entry: OfflineTransaction): VersionedTransaction => {
+  return VersionedTransaction.deserialize(Buffer.from(entry.transaction, 'base64'));
+};
+
+/**
+ * Encode a transaction for an offline transaction file
+ */
+export const encodeOfflineTransaction = (transaction: VersionedTransaction): string => {
+  return Buffer.from(transaction.serialize()).toString('base64');
+};
+
+/**
+ * Check whether every required signature of a transaction is present
+ */
+export const isFullySigned = (transaction: VersionedTransaction): boolean => {
+  return transaction.signatures.every(signature => signature.some(byte => byte !== 0));
+};
+
+/**
+ * Load an offline transaction file
+ */
+export const loadOfflineFile = (filePath: string): OfflineTransactionFile => {
+  const file = JSON.parse(fs.readFileSync(filePath, 'utf8')) as OfflineTransactionFile;
+  if (!file.command || !Array.isArray(file.transactions)) {
+    throw new Error(`${filePath} is not an offline transaction file`);
+  }
+  return file;
+};
+
+/**
+ * Save an offline transaction file, atomically so an interrupted broadcast never corrupts it
+ */
+export const saveOfflineFile = (filePath: string, file: OfflineTransactionFile): void => {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  saveProgress(filePath, file);
+};
+
+/**
+ * Build unsigned transactions and write them to out/<name>_unsigned_<timestamp>.json
+ * Transaction i uses nonce account i when nonce accounts are given, since each pre-signed transaction
+ * advances its nonce; otherwise the latest blockhash is used, which ff sign --blockhash can replace
+ * Returns the path of the written file
+ */
+export const writeUnsignedTransactions = async (
+  connection: Connection,
+  command: OfflineCommand,
+  inputFilePath: string,
+  requests: OfflineTransactionRequest[],
+  options: TransactionOptions & BuildOnlyOptions,
+  context: Pick<OfflineTransactionFile, 'mint' | 'amountUnit'> = {}
+): Promise<string> => {
+  const nonceAccounts = options.nonceAccounts || [];
+  if (nonceAccounts.length > 0 && nonceAccounts.length < requests.length) {
+    throw new Error(`${requests.length} transactions need one durable nonce account each, but ${nonceAccounts.length} were given`);
+  }
+  if (nonceAccounts.length === 0) {
+    logger.warn('No nonce accounts given: the transactions use the latest blockhash and expire in about a minute unless signed with ff sign --blockhash');
+  }
+
+  const transactions: OfflineTransaction[] = [];
+  for (let i = 0; i < requests.length; i++) {
+    const { transaction, feePayer, rows } = requests[i];
+    const unsigned = await buildUnsignedTransaction(connection, transaction, feePayer, {
+      ...options,
+      nonceAccount: nonceAccounts[i],
+    });
+    transactions.push({
+      rows,
+      transaction: encodeOfflineTransaction(unsigned.transaction),
+      signers: unsigned.signers,
+      expiry: unsigned.expiry,
+      priorityFee: unsigned.priorityFee,
+      computeUnitLimit: unsigned.computeUnitLimit,
+      feeLamports: unsigned.feeLamports,
+      state: 'unsigned',
+    });
+    logger.info(`Built transaction ${i + 1}/${requests.length} (${rows.length} rows)`);
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').replace('T', '_').slice(0, -5);
+  const baseName = path.basename(inputFilePath, path.extname(inputFilePath));
+  const outputPath = path.join(process.cwd(), 'out', `${baseName}_unsigned_${timestamp}.json`);
+  saveOfflineFile(outputPath, {
+    command,
+    inputFile: path.resolve(inputFilePath),
+    ...(context.mint ? { mint: context.mint } : {}),
+    ...(context.amountUnit ? { amountUnit: context.amountUnit } : {}),
+    createdAt: new Date().toISOString(),
+    transactions,
+  });
+  logger.info(`Wrote ${transactions.length} unsigned transactions to ${outputPath}`);
+
+  return outputPath;
+};
+
+/**
+ * Summarize what a transaction does from its instructions, so a signer can check it without trusting the file
+ */
+export const describeTransaction = (transaction: VersionedTransaction): string => {
+  const { message } = transaction;
+  const keys = message.staticAccountKeys;
+  let solTransfers = 0;
+  let lamports = BigInt(0);
+  let tokenTransfers = 0;
+  let accountCreations = 0;
+  const memos: string[] = [];
+  const other: string[] = [];
+
+  message.compiledInstructions.forEach(instruction => {
+    const programId = keys[instruction.programIdIndex];
+    const data = Buffer.from(instruction.data);
+
+    if (programId.equals(SystemProgram.programId) && data.length >= 12 && data.readUInt32LE(0) === 2) {
+      solTransfers++;
+      lamports += data.readBigUInt64LE(4);
+    } else if ((programId.equals(TOKEN_PROGRAM_ID) || programId.equals(TOKEN_2022_PROGRAM_ID)) && (data[0] === 3 || data[0] === 12 || (data[0] === 26 && data[1] === 1))) {
+      tokenTransfers++;
+    } else if (programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) {
+      accountCreations++;
+    } else if (programId.equals(MEMO_PROGRAM_ID)) {
+      memos.push(data.toString('utf8'));
+    } else if (!programId.equals(ComputeBudgetProgram.programId) && !programId.equals(SystemProgram.programId)) {
+      other.push(programId.toString());
+    }
+  });
+
+  const parts = [
+    `fee payer ${keys[0].toString()}`,
+    `${solTransfers} SOL transfers (${formatRawAmount(lamports, 9)} SOL)`,
+    `${tokenTransfers} token transfers`,
+    `${accountCreations} token account creations`,
+  ];
+  if (memos.length > 0) {
+    parts.push(`memos: ${memos.map(memo => JSON.stringify(memo)).join(', ')}`);
+  }
+  if (other.length > 0) {
+    parts.push(`other programs: ${Array.from(new Set(other)).join(', ')}`);
+  }
+  return parts.join(', ');
+};
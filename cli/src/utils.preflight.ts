@@ -0,0 +1,405 @@
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+} from '@solana/web3.js';
+import { getAccountLenForMint, getMint } from '@solana/spl-token';
+import { logger } from './utils';
+import { AddressScreen, BlockedRow, getBlockReason } from './utils.address-list';
+import { ConfirmationSummary, confirmAction, formatFeeEstimate } from './utils.confirm';
+import {
+  formatRawAmount,
+  getAccountInfos,
+  getExistingAccounts,
+  getSourceTokenAccounts,
+  getTransferBlocker,
+  RecipientKind,
+  RecipientTokenAccount,
+  resolveRecipientTokenAccounts,
+  TokenProgramInfo,
+} from './utils.token';
+import { estimateTransactionFeeLamports, TransactionOptions } from './utils.transaction';
+
+// Interface for a recipient checked before a payout
+export interface PreflightRecipient {
+  address: string;
+  rawAmount: bigint;  // Amount debited from the sender in base units (lamports or token units), transfer fee included
+  row: number;     // 1-based data row of the input file, not counting a header line, for reporting
+  mint?: string;   // Token mint, SOL when not given
+}
+
+// Interface for preflight parameters
+export interface PreflightParams {
+  connection: Connection;
+  sender: PublicKey;
+  recipients: PreflightRecipient[];
+  tokenInfos: Map<string, TokenProgramInfo>;  // Program info of every mint paid out
+  batchSize: number;                          // Maximum recipients packed into one transaction
+  recipientKind?: RecipientKind;              // How token recipient addresses are read, auto by default
+  allowPdaRecipients?: boolean;               // Pay off-curve (PDA) wallets instead of refusing them
+  skipNonexistent?: boolean;                  // Skip SOL rows paying addresses without an account
+  addressScreen?: AddressScreen;              // Deny list and allow list recipients are checked against
+  transactionOptions?: TransactionOptions;
+}
+
+// Interface for the totals of one asset of the payout
+export interface PreflightAssetSummary {
+  asset: string;              // Mint address, or SOL
+  recipientCount: number;
+  decimals: number;
+  totalAmount: bigint;        // In base units
+  balance: bigint;            // In base units
+  missingAccounts: number;    // Recipient token accounts that have to be created
+  accountRentLamports: number;
+}
+
+// Interface for the result of the preflight checks
+export interface PreflightReport {
+  recipientCount: number;
+  assets: PreflightAssetSummary[];
+  invalidRows: number[];
+  duplicateRows: number[];
+  offCurveRows: number[];
+  skippedRows: number[];      // SOL rows skipped because their recipient has no account
+  blockedRows: BlockedRow[];  // Rows skipped because of the deny list or allow list
+  transactionCount: number;
+  estimatedFeeLamports: number;
+  solBalanceLamports: bigint;
+  solRequiredLamports: bigint;
+  errors: string[];
+  warnings: string[];
+}
+
+// Format lamports as SOL for the summary
+const formatSol = (lamports: number | bigint): string => `${formatRawAmount(BigInt(lamports), 9)} SOL`;
+
+/**
+ * Estimate the fees of sending the transfers, using the priority fee cap as the upper bound in auto mode
+ * All transfers to a recipient share a transaction, so transactions are counted per recipient
+ */
+const estimateFees = (
+  transferCount: number,
+  recipientCount: number,
+  batchSize: number,
+  transactionOptions: TransactionOptions
+): { transactionCount: number; feeLamports: number } => {
+  const transactionCount = Math.ceil(recipientCount / Math.max(1, batchSize));
+  const instructionsPerTransaction = Math.max(1, Math.ceil(transferCount / Math.max(1, transactionCount)));
+  const feePerTransaction = estimateTransactionFeeLamports(instructionsPerTransaction, transactionOptions);
+
+  return { transactionCount, feeLamports: transactionCount * feePerTransaction };
+};
+
+/**
+ * Check the token balance of the sender and the recipient accounts to create for one mint,
+ * and the Token-2022 extensions that block or change its transfers
+ * Returns the recipient addresses that are token accounts paid directly
+ */
+const checkTokenAsset = async (
+  connection: Connection,
+  sender: PublicKey,
+  mintAddress: string,
+  tokenInfo: TokenProgramInfo,
+  recipients: PublicKey[],
+  recipientOptions: Pick<PreflightParams, 'recipientKind' | 'allowPdaRecipients'>,
+  summary: PreflightAssetSummary,
+  errors: string[],
+  warnings: string[]
+): Promise<Set<string>> => {
+  const mint = new PublicKey(mintAddress);
+
+  const blocker = getTransferBlocker(mintAddress, tokenInfo);
+  if (blocker) {
+    errors.push(blocker);
+  }
+  if (tokenInfo.transferFee && tokenInfo.transferFee.transferFeeBasisPoints > 0) {
+    const { transferFeeBasisPoints, maximumFee } = tokenInfo.transferFee;
+    warnings.push(`${mintAddress} charges a transfer fee of ${transferFeeBasisPoints / 100}% (at most ${formatRawAmount(maximumFee, tokenInfo.decimals)} tokens per transfer)`);
+  }
+  if (tokenInfo.transferHookProgramId) {
+    warnings.push(`${mintAddress} calls transfer hook program ${tokenInfo.transferHookProgramId.toString()} on every transfer`);
+  }
+
+  // Sender token balance, across every token account of the sender that can send
+  const sources = await getSourceTokenAccounts(connection, sender, mintAddress, tokenInfo);
+  summary.balance = sources.reduce((sum, source) => sum + source.balance, BigInt(0));
+  if (sources.length === 0) {
+    errors.push(`Sender has no token account holding ${mintAddress}`);
+  }
+
+  // Recipient token accounts, refusing token accounts of another mint
+  let recipientAccounts: RecipientTokenAccount[];
+  try {
+    recipientAccounts = await resolveRecipientTokenAccounts(
+      connection,
+      recipients.map(recipient => recipient.toString()),
+      mintAddress,
+      tokenInfo,
+      recipientOptions.recipientKind,
+      recipientOptions.allowPdaRecipients
+    );
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : String(error));
+    return new Set();
+  }
+
+  // Associated token accounts that have to be created, each paid for with rent by the sender
+  const tokenAddresses = Array.from(new Set(recipientAccounts
+    .filter(account => account.isAssociated)
+    .map(account => account.address.toString())
+  )).map(address => new PublicKey(address));
+  const existingAccounts = await getExistingAccounts(connection, tokenAddresses);
+  summary.missingAccounts = tokenAddresses.length - existingAccounts.size;
+
+  if (summary.missingAccounts > 0) {
+    const mintInfo = await getMint(connection, mint, 'confirmed', tokenInfo.programId);
+    const rentPerAccount = await connection.getMinimumBalanceForRentExemption(getAccountLenForMint(mintInfo));
+    summary.accountRentLamports = summary.missingAccounts * rentPerAccount;
+  }
+
+  return new Set(recipientAccounts.filter(account => !account.isAssociated).map(account => account.address.toString()));
+};
+
+/**
+ * Check the accounts of SOL recipients, fetched in batches: a new account has to receive at least the
+ * rent-exempt minimum or the transfer fails, and SOL sent to an executable or program-owned account
+ * may never be usable
+ * Returns the recipients without an account when they are to be skipped
+ */
+const checkSolRecipients = async (
+  connection: Connection,
+  recipients: PreflightRecipient[],
+  skipNonexistent: boolean,
+  errors: string[],
+  warnings: string[]
+): Promise<PreflightRecipient[]> => {
+  const addresses = Array.from(new Set(recipients.map(recipient => recipient.address)));
+  const accountInfos = await getAccountInfos(connection, addresses.map(address => new PublicKey(address)));
+  const accounts = new Map(addresses.map((address, index) => [address, accountInfos[index]]));
+  const rowsOf = (filter: (recipient: PreflightRecipient) => boolean) => recipients.filter(filter).map(recipient => recipient.row);
+
+  const nonexistent = recipients.filter(recipient => !accounts.get(recipient.address));
+  if (skipNonexistent) {
+    if (nonexistent.length > 0) {
+      warnings.push(`${nonexistent.length} SOL rows pay addresses without an account and will be skipped (rows ${nonexistent.map(recipient => recipient.row).join(', ')})`);
+    }
+  } else {
+    // Every transfer to a new address counts towards its first balance
+    const rentExemptLamports = BigInt(await connection.getMinimumBalanceForRentExemption(0));
+    const newAccountTotals = new Map<string, bigint>();
+    nonexistent.forEach(recipient => {
+      newAccountTotals.set(recipient.address, (newAccountTotals.get(recipient.address) || BigInt(0)) + recipient.rawAmount);
+    });
+    const belowRentRows = rowsOf(recipient => (newAccountTotals.get(recipient.address) ?? rentExemptLamports) < rentExemptLamports);
+    if (belowRentRows.length > 0) {
+      errors.push(`${belowRentRows.length} SOL rows pay new accounts less than the rent-exempt minimum of ${formatSol(rentExemptLamports)} and would fail (rows ${belowRentRows.join(', ')}); raise the amounts or use --skip-nonexistent`);
+    }
+  }
+
+  const executableRows = rowsOf(recipient => !!accounts.get(recipient.address)?.executable);
+  if (executableRows.length > 0) {
+    warnings.push(`${executableRows.length} SOL rows pay executable program accounts (rows ${executableRows.join(', ')})`);
+  }
+  const programOwnedRows = rowsOf(recipient => {
+    const account = accounts.get(recipient.address);
+    return !!account && !account.executable && !account.owner.equals(SystemProgram.programId);
+  });
+  if (programOwnedRows.length > 0) {
+    warnings.push(`${programOwnedRows.length} SOL rows pay accounts owned by a program, which may not be able to move the SOL (rows ${programOwnedRows.join(', ')})`);
+  }
+
+  return skipNonexistent ? nonexistent : [];
+};
+
+/**
+ * Check a payout before anything is sent: recipient addresses, balances of every asset, accounts to create and fees
+ * Problems that would make the payout fail are reported as errors, anything worth a second look as warnings
+ */
+export const runPreflight = async (params: PreflightParams): Promise<PreflightReport> => {
+  const { connection, sender, recipients, tokenInfos, batchSize, skipNonexistent = false, addressScreen, transactionOptions = {} } = params;
+
+  // Address validity, deny and allow lists, duplicates and off-curve (PDA) recipients
+  const invalidRows: number[] = [];
+  const blockedRows: BlockedRow[] = [];
+  const duplicateRows: number[] = [];
+  const offCurveRecipients: PreflightRecipient[] = [];
+  const seen = new Set<string>();
+  let validRecipients: { recipient: PreflightRecipient; owner: PublicKey }[] = [];
+
+  recipients.forEach(recipient => {
+    let owner: PublicKey;
+    try {
+      owner = new PublicKey(recipient.address);
+    } catch (error) {
+      invalidRows.push(recipient.row);
+      return;
+    }
+
+    const blockReason = addressScreen && getBlockReason(addressScreen, recipient.address);
+    if (blockReason) {
+      blockedRows.push({ row: recipient.row, address: recipient.address, mint: recipient.mint, reason: blockReason });
+      return;
+    }
+
+    // Paying several assets to one address is expected, paying the same asset twice is not
+    const key = `${recipient.mint || 'SOL'}:${recipient.address}`;
+    if (seen.has(key)) {
+      duplicateRows.push(recipient.row);
+    }
+    seen.add(key);
+
+    if (!PublicKey.isOnCurve(owner.toBytes())) {
+      offCurveRecipients.push(recipient);
+    }
+    validRecipients.push({ recipient, owner });
+  });
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  // Existence and owners of SOL recipient accounts, leaving skipped rows out of every total
+  const skipped = await checkSolRecipients(
+    connection,
+    validRecipients.filter(({ recipient }) => !recipient.mint).map(({ recipient }) => recipient),
+    skipNonexistent,
+    errors,
+    warnings
+  );
+  validRecipients = validRecipients.filter(({ recipient }) => !skipped.includes(recipient));
+
+  const recipientCount = new Set(validRecipients.map(({ recipient }) => recipient.address)).size;
+  const solBalanceLamports = BigInt(await connection.getBalance(sender));
+  const { transactionCount, feeLamports } = estimateFees(validRecipients.length, recipientCount, batchSize, transactionOptions);
+  const tokenAccountAddresses = new Set<string>();
+
+  // Totals per asset, SOL first
+  const assets: PreflightAssetSummary[] = [];
+  const assetKeys = Array.from(new Set(validRecipients.map(({ recipient }) => recipient.mint || 'SOL')))
+    .sort((a, b) => (a === 'SOL' ? -1 : b === 'SOL' ? 1 : 0));
+
+  for (const asset of assetKeys) {
+    const assetRecipients = validRecipients.filter(({ recipient }) => (recipient.mint || 'SOL') === asset);
+    const summary: PreflightAssetSummary = {
+      asset,
+      recipientCount: assetRecipients.length,
+      decimals: asset === 'SOL' ? 9 : tokenInfos.get(asset)?.decimals ?? 0,
+      totalAmount: assetRecipients.reduce((sum, { recipient }) => sum + recipient.rawAmount, BigInt(0)),
+      balance: asset === 'SOL' ? solBalanceLamports : BigInt(0),
+      missingAccounts: 0,
+      accountRentLamports: 0,
+    };
+
+    if (asset !== 'SOL') {
+      const tokenInfo = tokenInfos.get(asset);
+      if (!tokenInfo) {
+        throw new Error(`Missing token program info for mint ${asset}`);
+      }
+      const tokenAccounts = await checkTokenAsset(connection, sender, asset, tokenInfo, assetRecipients.map(({ owner }) => owner), params, summary, errors, warnings);
+      tokenAccounts.forEach(address => tokenAccountAddresses.add(address));
+      if (summary.balance < summary.totalAmount) {
+        errors.push(`Insufficient balance: need ${formatRawAmount(summary.totalAmount, summary.decimals)} tokens of ${asset} but only have ${formatRawAmount(summary.balance, summary.decimals)}`);
+      }
+    }
+    assets.push(summary);
+  }
+
+  const solRequiredLamports = assets.reduce((sum, summary) => sum + BigInt(summary.accountRentLamports) +
+    (summary.asset === 'SOL' ? summary.totalAmount : BigInt(0)), BigInt(feeLamports));
+  if (solBalanceLamports < solRequiredLamports) {
+    errors.push(`Insufficient SOL: need ${formatSol(solRequiredLamports)} for transfers, account rent and fees but only have ${formatSol(solBalanceLamports)}`);
+  }
+
+  if (invalidRows.length > 0) {
+    warnings.push(`${invalidRows.length} invalid addresses will be skipped (rows ${invalidRows.join(', ')})`);
+  }
+  if (blockedRows.length > 0) {
+    warnings.push(`${blockedRows.length} rows pay addresses on the deny list or missing from the allow list and will be skipped (rows ${blockedRows.map(blocked => blocked.row).join(', ')})`);
+  }
+  if (duplicateRows.length > 0) {
+    warnings.push(`${duplicateRows.length} rows pay an address the same asset as an earlier row (rows ${duplicateRows.join(', ')})`);
+  }
+  // Token accounts paid directly are off-curve when they are associated accounts, which is expected
+  const offCurveRows = offCurveRecipients
+    .filter(recipient => !tokenAccountAddresses.has(recipient.address) && !skipped.includes(recipient))
+    .map(recipient => recipient.row);
+  if (offCurveRows.length > 0) {
+    warnings.push(`${offCurveRows.length} recipients are off-curve program addresses (PDAs) that no private key controls${params.allowPdaRecipients ? ', paid because of --allow-pda-recipients' : ''}; tokens sent to a wrong PDA cannot be recovered (rows ${offCurveRows.join(', ')})`);
+  }
+
+  return {
+    recipientCount,
+    assets,
+    invalidRows,
+    duplicateRows,
+    offCurveRows,
+    skippedRows: skipped.map(recipient => recipient.row),
+    blockedRows,
+    transactionCount,
+    estimatedFeeLamports: feeLamports,
+    solBalanceLamports,
+    solRequiredLamports,
+    errors,
+    warnings,
+  };
+};
+
+/**
+ * Print the preflight summary
+ */
+export const printPreflightSummary = (report: PreflightReport, transactionOptions: TransactionOptions = {}): void => {
+  console.log('\nPreflight Summary:');
+  console.log('━'.repeat(80));
+  console.log(`Recipients:            ${report.recipientCount}`);
+  if (report.offCurveRows.length > 0) {
+    console.log(`PDA recipients:        ${report.offCurveRows.length} (rows ${report.offCurveRows.join(', ')})`);
+  }
+  if (report.skippedRows.length > 0) {
+    console.log(`Skipped rows:          ${report.skippedRows.length} (no recipient account)`);
+  }
+  if (report.blockedRows.length > 0) {
+    console.log(`Blocked rows:          ${report.blockedRows.length} (deny list or allow list)`);
+  }
+  report.assets.forEach(summary => {
+    console.log(`${summary.asset}:`);
+    console.log(`  Transfers:           ${summary.recipientCount}`);
+    console.log(`  Total amount:        ${formatRawAmount(summary.totalAmount, summary.decimals)}`);
+    console.log(`  Sender balance:      ${formatRawAmount(summary.balance, summary.decimals)}`);
+    if (summary.asset !== 'SOL') {
+      console.log(`  Accounts to create:  ${summary.missingAccounts} (rent ${formatSol(summary.accountRentLamports)})`);
+    }
+  });
+  console.log(`Transactions:          ~${report.transactionCount}`);
+  console.log(`Estimated fees:        ${transactionOptions.priorityFee === 'auto' ? 'up to ' : ''}${formatSol(report.estimatedFeeLamports)}`);
+  console.log(`SOL required:          ${formatSol(report.solRequiredLamports)} (balance ${formatSol(report.solBalanceLamports)})`);
+  console.log('━'.repeat(80));
+
+  report.warnings.forEach(warning => logger.warn(warning));
+  report.errors.forEach(error => logger.error(error));
+};
+
+/**
+ * Ask the user to confirm the payout after the preflight summary, typing the network name
+ * The action defaults to sending the payout; returns false when a check failed or the user declines, and `yes` skips the question
+ */
+export const confirmPreflight = async (
+  connection: Connection,
+  report: PreflightReport,
+  details: Pick<ConfirmationSummary, 'sender' | 'rows'> & Partial<Pick<ConfirmationSummary, 'action'>>,
+  transactionOptions: TransactionOptions = {},
+  yes: boolean = false
+): Promise<boolean> => {
+  if (report.errors.length > 0) {
+    logger.error('Preflight checks failed, nothing was sent');
+    return false;
+  }
+
+  return confirmAction(connection, {
+    action: 'send the payout',
+    ...details,
+    recipientCount: report.recipientCount,
+    totals: report.assets.map(summary => summary.asset === 'SOL'
+      ? formatSol(summary.totalAmount)
+      : `${formatRawAmount(summary.totalAmount, summary.decimals)} of ${summary.asset}`),
+    estimatedFee: formatFeeEstimate(report.estimatedFeeLamports, transactionOptions),
+  }, yes);
+};
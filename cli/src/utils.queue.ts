@@ -0,0 +1,64 @@
+import { logger } from './utils';
+
+// Interface for send queue options
+export interface SendQueueOptions {
+  concurrency?: number;  // Number of transactions kept in flight at once
+  rateLimit?: number;    // Maximum number of transactions started per second for each RPC endpoint
+}
+
+// Next free send slot (epoch ms) for each RPC endpoint, shared by all queues in the process
+const nextSendSlots = new Map<string, number>();
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Wait until the rate limit of the given RPC endpoint allows another transaction to start
+ */
+const waitForRateLimit = async (rpcUrl: string, rateLimit?: number): Promise<void> => {
+  if (!rateLimit || rateLimit <= 0) {
+    return;
+  }
+
+  const interval = 1000 / rateLimit;
+  const now = Date.now();
+  const slot = Math.max(now, nextSendSlots.get(rpcUrl) || 0);
+  nextSendSlots.set(rpcUrl, slot + interval);
+
+  if (slot > now) {
+    await sleep(slot - now);
+  }
+};
+
+/**
+ * Process items with up to `concurrency` workers in flight, rate limited per RPC endpoint
+ * Workers run on the single JS thread, so synchronous progress writes inside a worker
+ * (saveProgress) never interleave and the progress file stays consistent
+ */
+export const runSendQueue = async <T>(
+  rpcUrl: string,
+  items: T[],
+  options: SendQueueOptions,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> => {
+  const concurrency = Math.max(1, Math.floor(options.concurrency || 1));
+  let nextIndex = 0;
+
+  if (concurrency > 1 || options.rateLimit) {
+    logger.info(`Sending with concurrency ${concurrency}${options.rateLimit ? `, rate limit ${options.rateLimit} tx/s` : ''}`);
+  }
+
+  const runWorker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      await waitForRateLimit(rpcUrl, options.rateLimit);
+      try {
+        await worker(items[index], index);
+      } catch (error) {
+        logger.error(`Send queue task ${index + 1}/${items.length} failed: ${error}`);
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, () => runWorker());
+  await Promise.all(workers);
+};
@@ -1,44 +1,124 @@
 import {
+  AccountInfo,
   Connection,
   Keypair,
   PublicKey,
   Transaction,
-  sendAndConfirmTransaction,
+  TransactionInstruction,
 } from '@solana/web3.js';
 import {
   TOKEN_PROGRAM_ID,
   TOKEN_2022_PROGRAM_ID,
   getOrCreateAssociatedTokenAccount,
-  getAssociatedTokenAddress,
+  getAssociatedTokenAddressSync,
   createAssociatedTokenAccountInstruction,
-  createTransferInstruction,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  createTransferCheckedWithFeeInstruction,
+  createTransferCheckedWithTransferHookInstruction,
+  createTransferCheckedWithFeeAndTransferHookInstruction,
+  calculateFee,
+  getEpochFee,
+  getMemoTransfer,
+  getNonTransferable,
+  getPausableConfig,
+  getTransferFeeConfig,
+  getTransferHook,
+  unpackAccount,
+  unpackMint,
+  Account,
+  Mint,
+  TransferFee,
 } from '@solana/spl-token';
 import { logger } from './utils';
+import {
+  createMemoInstruction,
+  MEMO_COMPUTE_UNITS,
+  sendTransaction,
+  SendTransactionResult,
+  TransactionOptions,
+} from './utils.transaction';
+
+// Estimated compute units consumed by creating an associated token account
+const CREATE_ATA_COMPUTE_UNITS = 30_000;
+
+// Estimated compute units consumed by a single token transfer
+const TOKEN_TRANSFER_COMPUTE_UNITS = 6_500;
+
+// Estimated compute units added by the transfer hook program of a mint
+const TRANSFER_HOOK_COMPUTE_UNITS = 50_000;
+
+// Maximum number of accounts accepted by getMultipleAccountsInfo
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+
+// Unit of amounts in input files: UI amounts with decimals, or integer base units of the token
+export type AmountUnit = 'ui' | 'raw';
+
+// How amounts are paid for mints with a transfer fee: the recipient receives the amount and the sender
+// also pays the fee, or the sender sends the amount and the recipient receives it minus the fee
+export type TransferFeeMode = 'gross-up' | 'net';
+
+// How recipient addresses of token transfers are read: wallets whose associated token account is paid,
+// token accounts paid directly, or decided per address from the program owning it
+export type RecipientKind = 'owner' | 'token-account' | 'auto';
+
+// Non-negative decimal number without sign or exponent
+const AMOUNT_PATTERN = /^(\d+(\.\d*)?|\.\d+)$/;
+
+/**
+ * Check that an amount from an input file is a positive decimal number without exponent
+ */
+export const isValidAmount = (amount: string): boolean => {
+  const trimmed = (amount || '').trim();
+  return AMOUNT_PATTERN.test(trimmed) && /[1-9]/.test(trimmed);
+};
 
 /**
  * Safely convert decimal amount to integer units (lamports/token units)
- * Avoids floating-point precision issues by using string manipulation
+ * Strings are parsed exactly, digit by digit, and rejected if they have more decimals than the token;
+ * numbers are written out without exponent notation and rounded to the token decimals first
+ * With the 'raw' unit the amount already is in base units and must be a whole number
  */
-export const convertToRawAmount = (amount: number, decimals: number): bigint => {
-  // Convert to string to avoid floating-point issues
-  const amountStr = amount.toString();
+export const convertToRawAmount = (amount: number | string, decimals: number, unit: AmountUnit = 'ui'): bigint => {
+  const amountStr = typeof amount === 'number'
+    ? amount.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: unit === 'raw' ? 0 : decimals })
+    : amount.trim();
+  if (!AMOUNT_PATTERN.test(amountStr)) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+
   const [integerPart, decimalPart = ''] = amountStr.split('.');
-  
-  // Pad or truncate decimal part to match required decimals
-  const paddedDecimalPart = decimalPart.padEnd(decimals, '0').substring(0, decimals);
-  
-  // Combine integer and decimal parts
-  const rawAmountStr = integerPart + paddedDecimalPart;
-  
-  return BigInt(rawAmountStr);
+  const significantDecimals = decimalPart.replace(/0+$/, '');
+
+  if (unit === 'raw') {
+    if (significantDecimals) {
+      throw new Error(`Raw amount must be a whole number of base units: ${amount}`);
+    }
+    return BigInt(integerPart || '0');
+  }
+
+  if (significantDecimals.length > decimals) {
+    throw new Error(`Amount ${amount} has more than ${decimals} decimals`);
+  }
+  return BigInt((integerPart || '0') + decimalPart.padEnd(decimals, '0').substring(0, decimals));
 };
 
 /**
  * Safely convert SOL amount to lamports using the unified conversion function
  * SOL has 9 decimals (LAMPORTS_PER_SOL = 10^9)
  */
-export const convertSolToLamports = (amountInSol: number): bigint => {
-  return convertToRawAmount(amountInSol, 9);
+export const convertSolToLamports = (amountInSol: number | string, unit: AmountUnit = 'ui'): bigint => {
+  return convertToRawAmount(amountInSol, 9, unit);
+};
+
+/**
+ * Format an amount in base units as a decimal string without losing precision
+ */
+export const formatRawAmount = (rawAmount: bigint, decimals: number): string => {
+  const digits = rawAmount.toString().padStart(decimals + 1, '0');
+  const integerPart = digits.slice(0, digits.length - decimals);
+  const decimalPart = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return decimalPart ? `${integerPart}.${decimalPart}` : integerPart;
 };
 
 // Interface for token program info
@@ -46,6 +126,10 @@ export interface TokenProgramInfo {
   programId: PublicKey;
   decimals: number;
   isToken2022: boolean;
+  transferFee?: TransferFee;          // Transfer fee of the current epoch, for Token-2022 mints with a transfer fee
+  transferHookProgramId?: PublicKey;  // Program called on every transfer, for Token-2022 mints with a transfer hook
+  nonTransferable?: boolean;          // Tokens of the mint cannot be transferred at all
+  paused?: boolean;                   // The pause authority of the mint paused its transfers
 }
 
 // Interface for token transfer parameters
@@ -54,54 +138,321 @@ export interface TokenTransferParams {
   fromKeypair: Keypair;
   toAddress: string;
   mintAddress: string;
-  amount: number;
+  amount: number | string;
+  amountUnit?: AmountUnit;
+  memo?: string;            // Reference recorded with an SPL Memo instruction
+  transferFeeMode?: TransferFeeMode;  // For mints with a transfer fee, gross-up by default
+  expectDecimals?: number;  // Refuse the transfer unless the mint has these decimals
+  recipientKind?: RecipientKind;  // How toAddress is read, auto by default
+  allowPdaRecipients?: boolean;   // Pay an off-curve (PDA) wallet instead of refusing it
+  transactionOptions?: TransactionOptions;
 }
 
 // Interface for token transfer result
-export interface TokenTransferResult {
-  signature: string;
+export interface TokenTransferResult extends SendTransactionResult {
   accountCreated: boolean;
   tokenProgram: string;
   decimals: number;
 }
 
+// Interface for a token account of the sender that transfers can be paid from
+export interface SourceTokenAccount {
+  address: PublicKey;
+  balance: bigint;        // Base units left for transfers, reduced as transfers are planned
+  isAssociated: boolean;  // The associated token account of the owner
+}
+
+// Interface for the part of a transfer paid from one source account
+export interface SourceTransfer {
+  source: SourceTokenAccount;
+  rawAmount: bigint;      // Requested amount paid from the account, before any transfer fee
+  transferAmount: bigint; // Amount debited from the account, transfer fee included in gross-up mode
+}
+
+// Interface for the token account credited by a transfer
+export interface RecipientTokenAccount {
+  address: PublicKey;     // Token account credited
+  owner: PublicKey;       // Owner of the token account
+  isAssociated: boolean;  // Associated token account of a wallet recipient, created when missing
+}
+
+// Interface for a single recipient of a planned token transfer
+export interface TokenTransferTarget {
+  address: string;
+  rawAmount: bigint;  // Amount in base units of the token
+  memo?: string;      // Reference recorded with an SPL Memo instruction right before the transfer
+}
+
+// Interface for planned token transfer parameters
+export interface PlanTokenTransfersParams<T extends TokenTransferTarget> {
+  connection: Connection;
+  sender: PublicKey;        // Only the address is needed, so transfers can be planned for offline signing
+  payer?: PublicKey;        // Pays the rent of created accounts, the sender when not given
+  mintAddress: string;
+  tokenInfo: TokenProgramInfo;
+  recipients: T[];
+  transferFeeMode?: TransferFeeMode;  // For mints with a transfer fee, gross-up by default
+  recipientKind?: RecipientKind;      // How recipient addresses are read, auto by default
+  allowPdaRecipients?: boolean;       // Pay off-curve (PDA) wallets instead of refusing them
+}
+
+// Interface for the instructions paying one recipient, ready to be packed with others
+export interface PlannedTokenTransfer<T extends TokenTransferTarget> {
+  recipient: T;
+  instructions: TransactionInstruction[];
+  computeUnits: number;     // Estimated compute units of the instructions
+  accountCreated: boolean;
+}
+
 /**
  * Determine token program and get mint information
+ * For Token-2022 mints the extensions that change how tokens are transferred are read as well
+ * Fails when the mint cannot be read, since guessed decimals would scale every amount, and when
+ * expectDecimals is given and the mint has other decimals
  */
 export const getTokenProgramInfo = async (
   connection: Connection,
-  mintAddress: string
+  mintAddress: string,
+  expectDecimals?: number
 ): Promise<TokenProgramInfo> => {
   const mint = new PublicKey(mintAddress);
-  let programId = TOKEN_PROGRAM_ID;
-  let decimals = 9; // Default decimals
-  let isToken2022 = false;
-  
+  const mintInfo = await connection.getAccountInfo(mint);
+  if (!mintInfo) {
+    throw new Error(`Mint ${mintAddress} not found`);
+  }
+
+  // Check if this is a Token-2022 mint
+  const isToken2022 = mintInfo.owner.equals(TOKEN_2022_PROGRAM_ID);
+  if (!isToken2022 && !mintInfo.owner.equals(TOKEN_PROGRAM_ID)) {
+    throw new Error(`${mintAddress} is not a token mint (owned by ${mintInfo.owner.toString()})`);
+  }
+  const programId = isToken2022 ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+  if (isToken2022) {
+    logger.info(`Detected Token-2022 mint: ${mintAddress}`);
+  }
+
+  let mintData: Mint;
   try {
-    // Check if this is a Token-2022 mint
-    const mintInfo = await connection.getAccountInfo(mint);
-    if (mintInfo && mintInfo.owner.equals(TOKEN_2022_PROGRAM_ID)) {
-      programId = TOKEN_2022_PROGRAM_ID;
-      isToken2022 = true;
-      logger.info(`Detected Token-2022 mint: ${mintAddress}`);
+    mintData = unpackMint(mint, mintInfo, programId);
+  } catch (error) {
+    throw new Error(`Could not read the decimals of mint ${mintAddress}: ${error}`);
+  }
+  const { decimals } = mintData;
+  if (expectDecimals !== undefined && decimals !== expectDecimals) {
+    throw new Error(`Mint ${mintAddress} has ${decimals} decimals, expected ${expectDecimals}`);
+  }
+
+  const extensions: Partial<TokenProgramInfo> = {};
+  if (isToken2022) {
+    const transferFeeConfig = getTransferFeeConfig(mintData);
+    if (transferFeeConfig) {
+      const { epoch } = await connection.getEpochInfo();
+      extensions.transferFee = getEpochFee(transferFeeConfig, BigInt(epoch));
+      logger.info(`Mint ${mintAddress} charges a transfer fee of ${extensions.transferFee.transferFeeBasisPoints} basis points (maximum ${extensions.transferFee.maximumFee} base units)`);
     }
-    
-    // Get mint decimals using parsed account info
-    const parsedMintInfo = await connection.getParsedAccountInfo(mint);
-    if (parsedMintInfo.value?.data && 'parsed' in parsedMintInfo.value.data) {
-      decimals = parsedMintInfo.value.data.parsed.info.decimals;
+    const transferHook = getTransferHook(mintData);
+    if (transferHook && !transferHook.programId.equals(PublicKey.default)) {
+      extensions.transferHookProgramId = transferHook.programId;
+      logger.info(`Mint ${mintAddress} calls transfer hook program ${transferHook.programId.toString()}`);
     }
-  } catch (error) {
-    logger.warn(`Could not determine token program for ${mintAddress}, using default SPL Token: ${error}`);
+    extensions.nonTransferable = getNonTransferable(mintData) !== null;
+    extensions.paused = getPausableConfig(mintData)?.paused ?? false;
   }
-  
+
   return {
     programId,
     decimals,
-    isToken2022
+    isToken2022,
+    ...extensions
   };
 };
 
+/**
+ * Explain why tokens of a mint cannot be transferred, or return undefined when they can
+ */
+export const getTransferBlocker = (mintAddress: string, tokenInfo: TokenProgramInfo): string | undefined => {
+  if (tokenInfo.nonTransferable) {
+    return `Mint ${mintAddress} is non-transferable: its tokens can only be burned or closed, never sent`;
+  }
+  if (tokenInfo.paused) {
+    return `Transfers of mint ${mintAddress} are paused by its pause authority`;
+  }
+  return undefined;
+};
+
+/**
+ * Compute the amount debited from the sender to pay a requested amount
+ * In gross-up mode the transfer fee is added, so the recipient receives the requested amount;
+ * in net mode the requested amount is sent and the recipient receives it minus the fee
+ */
+export const getTransferAmount = (
+  tokenInfo: TokenProgramInfo,
+  rawAmount: bigint,
+  transferFeeMode: TransferFeeMode = 'gross-up'
+): bigint => {
+  const { transferFee } = tokenInfo;
+  if (!transferFee || transferFeeMode === 'net' || transferFee.transferFeeBasisPoints === 0) {
+    return rawAmount;
+  }
+
+  const basisPoints = BigInt(transferFee.transferFeeBasisPoints);
+  const maxBasisPoints = BigInt(10_000);
+  const capped = rawAmount + transferFee.maximumFee;
+  if (basisPoints >= maxBasisPoints) {
+    return capped;
+  }
+
+  let gross = (rawAmount * maxBasisPoints + maxBasisPoints - basisPoints - BigInt(1)) / (maxBasisPoints - basisPoints);
+  if (gross > capped) {
+    gross = capped;
+  }
+  // The fee is rounded up, so step up until the recipient receives the whole amount
+  while (gross - calculateFee(transferFee, gross) < rawAmount) {
+    gross++;
+  }
+  return gross;
+};
+
+/**
+ * Build the transferChecked instruction for a mint, with the expected fee for mints with a transfer fee
+ * and the extra accounts of the hook program for mints with a transfer hook
+ */
+export const createTokenTransferInstruction = async (
+  connection: Connection,
+  source: PublicKey,
+  mint: PublicKey,
+  destination: PublicKey,
+  owner: PublicKey,
+  amount: bigint,
+  tokenInfo: TokenProgramInfo
+): Promise<TransactionInstruction> => {
+  const { programId, decimals, transferFee, transferHookProgramId } = tokenInfo;
+  const fee = transferFee ? calculateFee(transferFee, amount) : undefined;
+
+  if (transferHookProgramId) {
+    return fee !== undefined
+      ? createTransferCheckedWithFeeAndTransferHookInstruction(connection, source, mint, destination, owner, amount, decimals, fee, [], 'confirmed', programId)
+      : createTransferCheckedWithTransferHookInstruction(connection, source, mint, destination, owner, amount, decimals, [], 'confirmed', programId);
+  }
+  if (fee !== undefined) {
+    return createTransferCheckedWithFeeInstruction(source, mint, destination, owner, amount, decimals, fee, [], programId);
+  }
+  return createTransferCheckedInstruction(source, mint, destination, owner, amount, decimals, [], programId);
+};
+
+/**
+ * Find which of the given token accounts require a memo with incoming transfers (MemoTransfer extension)
+ */
+export const getAccountsRequiringMemo = async (
+  connection: Connection,
+  addresses: PublicKey[],
+  tokenInfo: TokenProgramInfo
+): Promise<Set<string>> => {
+  const requiringMemo = new Set<string>();
+  if (!tokenInfo.isToken2022) {
+    return requiringMemo;
+  }
+
+  const accounts = await getAccountInfos(connection, addresses);
+  accounts.forEach((account, index) => {
+    if (account !== null && getMemoTransfer(unpackAccount(addresses[index], account, tokenInfo.programId))?.requireIncomingTransferMemos) {
+      requiringMemo.add(addresses[index].toString());
+    }
+  });
+
+  return requiringMemo;
+};
+
+/**
+ * Resolve the token program info of each mint once
+ */
+export const getTokenProgramInfos = async (
+  connection: Connection,
+  mintAddresses: string[],
+  expectDecimals?: number
+): Promise<Map<string, TokenProgramInfo>> => {
+  const tokenInfos = new Map<string, TokenProgramInfo>();
+  for (const mintAddress of new Set(mintAddresses)) {
+    tokenInfos.set(mintAddress, await getTokenProgramInfo(connection, mintAddress, expectDecimals));
+  }
+  return tokenInfos;
+};
+
+/**
+ * Find the token accounts of an owner that can send tokens of a mint: holding a balance and not frozen
+ * The associated token account comes first, the others follow from the largest balance down
+ * No account is ever created, so a sender without tokens costs nothing
+ */
+export const getSourceTokenAccounts = async (
+  connection: Connection,
+  owner: PublicKey,
+  mintAddress: string,
+  tokenInfo: TokenProgramInfo
+): Promise<SourceTokenAccount[]> => {
+  const mint = new PublicKey(mintAddress);
+  const associatedAddress = getAssociatedTokenAddressSync(mint, owner, true, tokenInfo.programId);
+  const { value } = await connection.getTokenAccountsByOwner(owner, { mint }, 'confirmed');
+
+  return value
+    .map(({ pubkey, account }) => unpackAccount(pubkey, account, tokenInfo.programId))
+    .filter(account => account.amount > BigInt(0) && !account.isFrozen)
+    .map(account => ({
+      address: account.address,
+      balance: account.amount,
+      isAssociated: account.address.equals(associatedAddress),
+    }))
+    .sort((a, b) => (a.isAssociated !== b.isAssociated
+      ? (a.isAssociated ? -1 : 1)
+      : (b.balance > a.balance ? 1 : b.balance < a.balance ? -1 : 0)));
+};
+
+/**
+ * Pay a requested amount from the source accounts: from the first account that holds enough on its own,
+ * or else combined from the accounts in order
+ * The balances of the sources are reduced, so later transfers of the same run only see what is left
+ */
+export const takeFromSourceAccounts = (
+  sources: SourceTokenAccount[],
+  rawAmount: bigint,
+  tokenInfo: TokenProgramInfo,
+  transferFeeMode: TransferFeeMode = 'gross-up'
+): SourceTransfer[] => {
+  // In gross-up mode an account holding its whole balance can pay the balance minus the fee on it
+  const { transferFee } = tokenInfo;
+  const capacity = (source: SourceTokenAccount): bigint => (transferFee && transferFeeMode === 'gross-up'
+    ? source.balance - calculateFee(transferFee, source.balance)
+    : source.balance);
+
+  const total = sources.reduce((sum, source) => sum + capacity(source), BigInt(0));
+  if (total < rawAmount) {
+    throw new Error(`Sender token accounts hold ${total} base units, not enough for ${rawAmount}`);
+  }
+
+  const single = sources.find(source => capacity(source) >= rawAmount);
+  const parts: { source: SourceTokenAccount; rawAmount: bigint }[] = [];
+  if (single) {
+    parts.push({ source: single, rawAmount });
+  } else {
+    let remaining = rawAmount;
+    for (const source of sources) {
+      const part = capacity(source) < remaining ? capacity(source) : remaining;
+      if (part > BigInt(0)) {
+        parts.push({ source, rawAmount: part });
+        remaining -= part;
+      }
+      if (remaining === BigInt(0)) {
+        break;
+      }
+    }
+  }
+
+  return parts.map(({ source, rawAmount: part }) => {
+    const transferAmount = getTransferAmount(tokenInfo, part, transferFeeMode);
+    source.balance -= transferAmount;
+    return { source, rawAmount: part, transferAmount };
+  });
+};
+
 /**
  * Execute atomic token transfer (account creation + transfer in single transaction)
  * This is the best practice approach for token transfers
@@ -109,36 +460,31 @@ export const getTokenProgramInfo = async (
 export const executeAtomicTokenTransfer = async (
   params: TokenTransferParams
 ): Promise<TokenTransferResult> => {
-  const { connection, fromKeypair, toAddress, mintAddress, amount } = params;
+  const { connection, fromKeypair, toAddress, mintAddress, amount, amountUnit, memo, transferFeeMode, expectDecimals, recipientKind, allowPdaRecipients, transactionOptions } = params;
   
   try {
     const mint = new PublicKey(mintAddress);
-    const recipient = new PublicKey(toAddress);
+    // A separate fee payer also pays the rent of created accounts
+    const payer = transactionOptions?.feePayer || fromKeypair;
 
     // Get token program info
-    const tokenInfo = await getTokenProgramInfo(connection, mintAddress);
+    const tokenInfo = await getTokenProgramInfo(connection, mintAddress, expectDecimals);
     const { programId: tokenProgramId, decimals } = tokenInfo;
+    const blocker = getTransferBlocker(mintAddress, tokenInfo);
+    if (blocker) {
+      throw new Error(blocker);
+    }
 
-    // Get sender's token account
-    logger.info(`Getting sender token account for ${mintAddress.substring(0, 8)}...`);
-    const senderTokenAccount = await getOrCreateAssociatedTokenAccount(
-      connection,
-      fromKeypair,
-      mint,
-      fromKeypair.publicKey,
-      false,
-      undefined,
-      undefined,
-      tokenProgramId
-    );
+    // Find the sender's token accounts holding the balance, never creating one
+    logger.info(`Getting sender token accounts for ${mintAddress.substring(0, 8)}...`);
+    const sources = await getSourceTokenAccounts(connection, fromKeypair.publicKey, mintAddress, tokenInfo);
+    if (sources.length === 0) {
+      throw new Error(`Sender ${fromKeypair.publicKey.toString()} has no token account holding ${mintAddress}`);
+    }
 
-    // Get recipient token address
-    const recipientTokenAddress = await getAssociatedTokenAddress(
-      mint,
-      recipient,
-      false,
-      tokenProgramId
-    );
+    // Get recipient token account: the associated account of a wallet, or the token account itself
+    const [recipientAccount] = await resolveRecipientTokenAccounts(connection, [toAddress], mintAddress, tokenInfo, recipientKind, allowPdaRecipients);
+    const recipientTokenAddress = recipientAccount.address;
     
     // Check if recipient token account exists
     const accountInfo = await connection.getAccountInfo(recipientTokenAddress);
@@ -151,39 +497,52 @@ export const executeAtomicTokenTransfer = async (
     if (!accountExists) {
       logger.info(`Creating token account for ${toAddress.substring(0, 8)}...`);
       const createAccountIx = createAssociatedTokenAccountInstruction(
-        fromKeypair.publicKey,  // Payer
-        recipientTokenAddress,  // Associated token account address
-        recipient,              // Owner
-        mint,                   // Mint
-        tokenProgramId          // Token program
+        payer.publicKey,          // Payer
+        recipientTokenAddress,    // Associated token account address
+        recipientAccount.owner,   // Owner
+        mint,                     // Mint
+        tokenProgramId            // Token program
       );
       transaction.add(createAccountIx);
     }
     
-    // Add transfer instruction
-    const rawAmount = convertToRawAmount(amount, decimals);
-
-    logger.info(`createTransferInstruction rawAmount: ${rawAmount}`)
-    const transferIx = createTransferInstruction(
-      senderTokenAccount.address,
-      recipientTokenAddress,
-      fromKeypair.publicKey,
-      rawAmount,
-      [],
-      tokenProgramId
-    );
-    transaction.add(transferIx);
+    // A recipient account with the MemoTransfer extension only accepts transfers right after a memo
+    if (accountInfo && !memo && getMemoTransfer(unpackAccount(recipientTokenAddress, accountInfo, tokenProgramId))?.requireIncomingTransferMemos) {
+      throw new Error(`Token account ${recipientTokenAddress.toString()} of ${toAddress} requires a memo with incoming transfers`);
+    }
+
+    // Add a transfer instruction for each source account paying part of the amount
+    const parts = takeFromSourceAccounts(sources, convertToRawAmount(amount, decimals, amountUnit), tokenInfo, transferFeeMode);
+    for (const { source, transferAmount } of parts) {
+      if (memo) {
+        transaction.add(createMemoInstruction(memo));
+      }
+
+      logger.info(`createTokenTransferInstruction rawAmount: ${transferAmount} from ${source.address.toString()}`)
+      const transferIx = await createTokenTransferInstruction(
+        connection,
+        source.address,
+        mint,
+        recipientTokenAddress,
+        fromKeypair.publicKey,
+        transferAmount,
+        tokenInfo
+      );
+      transaction.add(transferIx);
+    }
     
     // Send and confirm transaction
     logger.info(`Executing ${accountExists ? 'transfer' : 'account creation + transfer'} transaction...`);
-    const signature = await sendAndConfirmTransaction(
+    const { signature, ...fees } = await sendTransaction(
       connection,
       transaction,
-      [fromKeypair]
+      [fromKeypair],
+      transactionOptions
     );
     
     return {
       signature,
+      ...fees,
       accountCreated: !accountExists,
       tokenProgram: tokenProgramId.toString(),
       decimals
@@ -201,30 +560,27 @@ export const executeAtomicTokenTransfer = async (
 export const executeLegacyTokenTransfer = async (
   params: TokenTransferParams
 ): Promise<string> => {
-  const { connection, fromKeypair, toAddress, mintAddress, amount } = params;
+  const { connection, fromKeypair, toAddress, mintAddress, amount, amountUnit, expectDecimals } = params;
   
   const mint = new PublicKey(mintAddress);
   const recipient = new PublicKey(toAddress);
   
   // Get token program info
-  const tokenInfo = await getTokenProgramInfo(connection, mintAddress);
+  const tokenInfo = await getTokenProgramInfo(connection, mintAddress, expectDecimals);
   const { programId: tokenProgramId, decimals } = tokenInfo;
   
   // Import transfer function dynamically to avoid issues
-  const { transfer } = await import('@solana/spl-token');
+  const { transferChecked } = await import('@solana/spl-token');
   
-  // Get or create token accounts
-  const fromTokenAccount = await getOrCreateAssociatedTokenAccount(
-    connection,
-    fromKeypair,
-    mint,
-    fromKeypair.publicKey,
-    false,
-    undefined,
-    undefined,
-    tokenProgramId
-  );
+  // Pay from a single existing token account of the sender, which is never created
+  const rawAmount = convertToRawAmount(amount, decimals, amountUnit);
+  const sources = await getSourceTokenAccounts(connection, fromKeypair.publicKey, mintAddress, tokenInfo);
+  const fromTokenAccount = sources.find(source => source.balance >= rawAmount);
+  if (!fromTokenAccount) {
+    throw new Error(`No token account of ${fromKeypair.publicKey.toString()} holds ${rawAmount} base units of ${mintAddress} on its own`);
+  }
   
+  // Get or create the recipient token account
   const toTokenAccount = await getOrCreateAssociatedTokenAccount(
     connection,
     fromKeypair,
@@ -237,14 +593,15 @@ export const executeLegacyTokenTransfer = async (
   );
   
   // Execute transfer
-  const rawAmount = convertToRawAmount(amount, decimals);
-  const signature = await transfer(
+  const signature = await transferChecked(
     connection,
     fromKeypair,
     fromTokenAccount.address,
+    mint,
     toTokenAccount.address,
     fromKeypair,
     rawAmount,
+    decimals,
     [],
     undefined,
     tokenProgramId
@@ -252,3 +609,199 @@ export const executeLegacyTokenTransfer = async (
   
   return signature;
 };
+
+/**
+ * Fetch the given accounts in order, querying in chunks of MAX_ACCOUNTS_PER_REQUEST
+ */
+export const getAccountInfos = async (
+  connection: Connection,
+  addresses: PublicKey[]
+): Promise<(AccountInfo<Buffer> | null)[]> => {
+  const accounts: (AccountInfo<Buffer> | null)[] = [];
+
+  for (let i = 0; i < addresses.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+    accounts.push(...await connection.getMultipleAccountsInfo(addresses.slice(i, i + MAX_ACCOUNTS_PER_REQUEST)));
+  }
+
+  return accounts;
+};
+
+/**
+ * Check which of the given accounts exist
+ */
+export const getExistingAccounts = async (
+  connection: Connection,
+  addresses: PublicKey[]
+): Promise<Set<string>> => {
+  const accounts = await getAccountInfos(connection, addresses);
+  return new Set(addresses.filter((_, index) => accounts[index] !== null).map(address => address.toString()));
+};
+
+/**
+ * Resolve the token account credited for each recipient address
+ * In auto mode an address owned by a token program is read as a token account, anything else as a wallet;
+ * a token account must hold the mint being sent, since tokens sent to an associated account derived
+ * from a token account could never be moved
+ * Off-curve wallets (PDAs such as program or multisig vaults) are refused unless allowPdaRecipients is set,
+ * since tokens sent to a PDA by mistake cannot be recovered
+ */
+export const resolveRecipientTokenAccounts = async (
+  connection: Connection,
+  addresses: string[],
+  mintAddress: string,
+  tokenInfo: TokenProgramInfo,
+  recipientKind: RecipientKind = 'auto',
+  allowPdaRecipients: boolean = false
+): Promise<RecipientTokenAccount[]> => {
+  const mint = new PublicKey(mintAddress);
+  const keys = addresses.map(address => new PublicKey(address));
+  const toAssociated = (owner: PublicKey): RecipientTokenAccount => ({
+    address: getAssociatedTokenAddressSync(mint, owner, true, tokenInfo.programId),
+    owner,
+    isAssociated: true,
+  });
+  const checkOffCurve = (resolved: RecipientTokenAccount[]): RecipientTokenAccount[] => {
+    const offCurve = resolved.filter(account => account.isAssociated && !PublicKey.isOnCurve(account.owner.toBytes()));
+    if (offCurve.length > 0 && !allowPdaRecipients) {
+      const owners = Array.from(new Set(offCurve.map(account => account.owner.toString())));
+      throw new Error(`Recipients ${owners.join(', ')} are off-curve program addresses (PDAs), pass --allow-pda-recipients to pay them`);
+    }
+    return resolved;
+  };
+  if (recipientKind === 'owner') {
+    return checkOffCurve(keys.map(toAssociated));
+  }
+
+  const accounts = await getAccountInfos(connection, keys);
+  return checkOffCurve(keys.map((key, index) => {
+    const account = accounts[index];
+    const isTokenProgramAccount = !!account && (account.owner.equals(TOKEN_PROGRAM_ID) || account.owner.equals(TOKEN_2022_PROGRAM_ID));
+    if (recipientKind === 'auto' && !isTokenProgramAccount) {
+      return toAssociated(key);
+    }
+    if (!account) {
+      throw new Error(`Token account ${key.toString()} not found`);
+    }
+
+    let tokenAccount: Account;
+    try {
+      tokenAccount = unpackAccount(key, account, account.owner);
+    } catch (error) {
+      throw new Error(`${key.toString()} is not a token account`);
+    }
+    if (!tokenAccount.mint.equals(mint)) {
+      throw new Error(`Token account ${key.toString()} holds mint ${tokenAccount.mint.toString()}, not ${mintAddress}`);
+    }
+    return { address: key, owner: tokenAccount.owner, isAssociated: false };
+  }));
+};
+
+/**
+ * Plan the instructions paying each recipient: an account creation for the first transfer to a
+ * missing token account, followed by a transfer from each source account paying part of the amount,
+ * each after the memo of the recipient
+ * The planned transfers can be packed together with other instructions by packInstructions
+ */
+export const planTokenTransfers = async <T extends TokenTransferTarget>(
+  params: PlanTokenTransfersParams<T>
+): Promise<PlannedTokenTransfer<T>[]> => {
+  const { connection, sender, payer = sender, mintAddress, tokenInfo, recipients, transferFeeMode, recipientKind, allowPdaRecipients } = params;
+  const { programId: tokenProgramId } = tokenInfo;
+  const mint = new PublicKey(mintAddress);
+  const blocker = getTransferBlocker(mintAddress, tokenInfo);
+  if (blocker) {
+    throw new Error(blocker);
+  }
+
+  // Find the sender's token accounts holding the balance being paid out, never creating one
+  logger.info(`Getting sender token accounts for ${mintAddress.substring(0, 8)}...`);
+  const sources = await getSourceTokenAccounts(connection, sender, mintAddress, tokenInfo);
+  if (sources.length === 0) {
+    throw new Error(`Sender ${sender.toString()} has no token account holding ${mintAddress}`);
+  }
+
+  // Resolve all recipient token accounts and check which already exist
+  const recipientAccounts = await resolveRecipientTokenAccounts(
+    connection,
+    recipients.map(recipient => recipient.address),
+    mintAddress,
+    tokenInfo,
+    recipientKind,
+    allowPdaRecipients
+  );
+  const recipientTokenAddresses = recipientAccounts.map(account => account.address);
+  const existingAccounts = await getExistingAccounts(connection, recipientTokenAddresses);
+  logger.info(`${new Set(recipientTokenAddresses.map(a => a.toString())).size - existingAccounts.size} recipient token accounts need to be created for ${mintAddress.substring(0, 8)}...`);
+
+  // Recipient accounts with the MemoTransfer extension reject transfers without a memo
+  const requiringMemo = await getAccountsRequiringMemo(
+    connection,
+    recipientTokenAddresses.filter(address => existingAccounts.has(address.toString())),
+    tokenInfo
+  );
+  const missingMemos = recipients.filter((recipient, index) => !recipient.memo && requiringMemo.has(recipientTokenAddresses[index].toString()));
+  if (missingMemos.length > 0) {
+    throw new Error(`Token accounts of ${missingMemos.map(recipient => recipient.address).join(', ')} require a memo with incoming transfers`);
+  }
+
+  // Only the first transfer to a missing account creates it
+  const pendingCreation = new Set<string>();
+  const planned: PlannedTokenTransfer<T>[] = [];
+  for (let index = 0; index < recipients.length; index++) {
+    const recipient = recipients[index];
+    const tokenAddress = recipientTokenAddresses[index];
+    const accountCreated = !existingAccounts.has(tokenAddress.toString()) && !pendingCreation.has(tokenAddress.toString());
+    const instructions: TransactionInstruction[] = [];
+
+    if (accountCreated) {
+      pendingCreation.add(tokenAddress.toString());
+      // Idempotent creation so a concurrently created account does not fail the transaction
+      instructions.push(
+        createAssociatedTokenAccountIdempotentInstruction(
+          payer,
+          tokenAddress,
+          recipientAccounts[index].owner,
+          mint,
+          tokenProgramId
+        )
+      );
+    }
+
+    // One transfer per source account paying part of the amount
+    let parts: SourceTransfer[];
+    try {
+      parts = takeFromSourceAccounts(sources, recipient.rawAmount, tokenInfo, transferFeeMode);
+    } catch (error) {
+      throw new Error(`Cannot pay ${recipient.address}: ${error instanceof Error ? error.message : error}`);
+    }
+    for (const { source, transferAmount } of parts) {
+      // The memo has to come right before each transfer for accounts that require one
+      if (recipient.memo) {
+        instructions.push(createMemoInstruction(recipient.memo));
+      }
+      instructions.push(
+        await createTokenTransferInstruction(
+          connection,
+          source.address,
+          mint,
+          tokenAddress,
+          sender,
+          transferAmount,
+          tokenInfo
+        )
+      );
+    }
+
+    const transferComputeUnits = TOKEN_TRANSFER_COMPUTE_UNITS +
+      (recipient.memo ? MEMO_COMPUTE_UNITS : 0) +
+      (tokenInfo.transferHookProgramId ? TRANSFER_HOOK_COMPUTE_UNITS : 0);
+    planned.push({
+      recipient,
+      instructions,
+      computeUnits: parts.length * transferComputeUnits + (accountCreated ? CREATE_ATA_COMPUTE_UNITS : 0),
+      accountCreated,
+    });
+  }
+
+  return planned;
+};
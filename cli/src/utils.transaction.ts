@@ -0,0 +1,715 @@
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  Signer,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  TransactionExpiredBlockheightExceededError,
+  TransactionExpiredNonceInvalidError,
+  TransactionMessage,
+  VersionedMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import { logger, logImportant } from './utils';
+
+// Placeholder blockhash used to compile a message when measuring its size
+const PLACEHOLDER_BLOCKHASH = PublicKey.default.toBase58();
+
+// Size of a single ed25519 signature in bytes
+const SIGNATURE_SIZE = 64;
+
+// Maximum number of accounts a single transaction may lock, including accounts loaded from lookup tables
+export const MAX_ACCOUNTS_PER_TRANSACTION = 64;
+
+// Maximum compute units a single transaction may consume
+export const MAX_COMPUTE_UNITS_PER_TRANSACTION = 1_400_000;
+
+// Compute units granted per instruction when no compute unit limit is set
+const DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION = 200_000;
+
+// Base fee charged per signature in lamports
+export const LAMPORTS_PER_SIGNATURE = 5000;
+
+// Defaults for the automatic priority fee
+export const DEFAULT_PRIORITY_FEE_PERCENTILE = 75;
+export const DEFAULT_PRIORITY_FEE_CAP = 100_000; // micro-lamports per compute unit
+
+// Extra compute units (percent) added on top of the simulated consumption
+export const DEFAULT_COMPUTE_UNIT_MARGIN = 10;
+
+// Interval between status checks and rebroadcasts of an unconfirmed transaction
+const REBROADCAST_INTERVAL_MS = 2000;
+
+// Maximum number of accounts accepted by getRecentPrioritizationFees
+const MAX_PRIORITY_FEE_ACCOUNTS = 128;
+
+// SPL Memo program (v2)
+export const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+// Maximum memo length in bytes, leaving room for the transfers sharing its transaction
+export const MAX_MEMO_BYTES = 256;
+
+// Estimated compute units consumed by a memo of up to MAX_MEMO_BYTES
+export const MEMO_COMPUTE_UNITS = 8000;
+
+// Priority fee in micro-lamports per compute unit, or 'auto' to derive it from recent fees
+export type PriorityFeeSetting = number | 'auto';
+
+// Interface for options applied to every sent transaction
+export interface TransactionOptions {
+  priorityFee?: PriorityFeeSetting;
+  computeUnitLimit?: number;
+  priorityFeePercentile?: number;  // Percentile of recent fees used in auto mode
+  priorityFeeCap?: number;         // Maximum micro-lamports per compute unit in auto mode
+  simulate?: boolean;              // Simulate before sending and size the compute unit limit from the result
+  computeUnitMargin?: number;      // Percent added to the simulated compute units
+  logIdentifier?: string;          // Input file whose log receives the simulation logs
+  versioned?: boolean;             // Build v0 messages instead of legacy ones
+  lookupTables?: AddressLookupTableAccount[]; // Lookup tables compiled into v0 messages, implies versioned
+  nonceAccount?: PublicKey;        // Durable nonce account used in place of a recent blockhash
+  nonceAuthority?: Signer;         // Authority of the nonce account, the fee payer when not given
+  feePayer?: Signer;               // Pays fees and rent and co-signs every transaction, the first signer when not given
+  onSigned?: (pending: PendingTransaction) => void; // Called before the first broadcast to record the signature
+}
+
+// Interface for a signed transaction whose outcome is not yet known
+// A transaction expires after lastValidBlockHeight, or once its nonce advanced when it uses a durable nonce
+export interface PendingTransaction {
+  signature: string;
+  lastValidBlockHeight?: number;
+  nonceAccount?: string;
+  nonce?: string;              // Nonce value the transaction was signed with
+  blockhash?: string;          // Blockhash of a transaction signed offline without a known lastValidBlockHeight
+}
+
+// Outcome of a sent transaction: confirmed successfully, confirmed with an error,
+// still within its blockhash validity, or expired without landing (safe to retry)
+export type LandingStatus = 'landed' | 'failed' | 'pending' | 'expired';
+
+// Interface for the observed outcome of a sent transaction
+export interface TransactionLanding<S extends LandingStatus = LandingStatus> {
+  status: S;
+  slot?: number;  // Slot the transaction landed in, when it landed or failed
+}
+
+// Interface for the fees of a sent transaction
+export interface TransactionFeeInfo {
+  priorityFee: number;             // Micro-lamports per compute unit
+  computeUnitLimit?: number;
+  feeLamports: number;             // Total fee paid (base + priority)
+}
+
+// Interface for the result of a sent transaction
+export interface SendTransactionResult extends TransactionFeeInfo {
+  signature: string;
+  slot?: number;
+}
+
+/**
+ * Get the number of bytes needed to encode a length as a compact-u16 (shortvec)
+ */
+const getShortVecLength = (length: number): number => {
+  let bytes = 1;
+  let remaining = length >> 7;
+  while (remaining > 0) {
+    bytes++;
+    remaining >>= 7;
+  }
+  return bytes;
+};
+
+/**
+ * Get the lookup tables to compile messages with, or undefined for legacy messages
+ */
+export const getMessageLookupTables = (options: TransactionOptions): AddressLookupTableAccount[] | undefined => {
+  return options.lookupTables ?? (options.versioned ? [] : undefined);
+};
+
+/**
+ * Compile the instructions into a v0 message using the given lookup tables, or a legacy message without them
+ */
+const compileMessage = (
+  instructions: TransactionInstruction[],
+  feePayer: PublicKey,
+  recentBlockhash: string,
+  lookupTables?: AddressLookupTableAccount[]
+): VersionedMessage => {
+  const message = new TransactionMessage({ payerKey: feePayer, recentBlockhash, instructions });
+  return lookupTables ? message.compileToV0Message(lookupTables) : message.compileToLegacyMessage();
+};
+
+/**
+ * Count the accounts a message locks, including the accounts it loads from lookup tables
+ */
+const getMessageAccountCount = (message: VersionedMessage): number => {
+  return message.staticAccountKeys.length + message.addressTableLookups.reduce(
+    (sum, lookup) => sum + lookup.writableIndexes.length + lookup.readonlyIndexes.length, 0
+  );
+};
+
+/**
+ * Calculate the serialized wire size of a transaction built from the given instructions,
+ * including the signatures of all required signers
+ * With lookup tables the size of the v0 transaction is returned, otherwise that of the legacy one
+ */
+export const getTransactionSize = (
+  instructions: TransactionInstruction[],
+  feePayer: PublicKey,
+  lookupTables?: AddressLookupTableAccount[]
+): number => {
+  const message = compileMessage(instructions, feePayer, PLACEHOLDER_BLOCKHASH, lookupTables);
+  const signatureCount = message.header.numRequiredSignatures;
+
+  return getShortVecLength(signatureCount) + signatureCount * SIGNATURE_SIZE + message.serialize().length;
+};
+
+/**
+ * Check whether the given instructions fit into a single transaction packet and its account limit
+ * Instructions too large to even be serialized do not fit
+ */
+export const fitsInTransaction = (
+  instructions: TransactionInstruction[],
+  feePayer: PublicKey,
+  lookupTables?: AddressLookupTableAccount[]
+): boolean => {
+  try {
+    const message = compileMessage(instructions, feePayer, PLACEHOLDER_BLOCKHASH, lookupTables);
+    return getTransactionSize(instructions, feePayer, lookupTables) <= PACKET_DATA_SIZE &&
+      getMessageAccountCount(message) <= MAX_ACCOUNTS_PER_TRANSACTION;
+  } catch (error) {
+    // web3.js serializes into a fixed-size buffer and overruns it for oversized messages
+    if (error instanceof RangeError) {
+      return false;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Build the ComputeBudget instructions for the given priority fee and compute unit limit
+ */
+export const buildComputeBudgetInstructions = (
+  priorityFee: number,
+  computeUnitLimit?: number
+): TransactionInstruction[] => {
+  const instructions: TransactionInstruction[] = [];
+
+  if (computeUnitLimit) {
+    instructions.push(ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit }));
+  }
+  if (priorityFee > 0) {
+    instructions.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: priorityFee }));
+  }
+
+  return instructions;
+};
+
+/**
+ * Build an SPL Memo instruction recording a payout reference
+ * It lists no signer accounts, so the memo program only logs the text
+ */
+export const createMemoInstruction = (memo: string): TransactionInstruction => {
+  return new TransactionInstruction({
+    programId: MEMO_PROGRAM_ID,
+    keys: [],
+    data: Buffer.from(memo, 'utf8'),
+  });
+};
+
+/**
+ * Check that a memo fits within MAX_MEMO_BYTES
+ */
+export const isValidMemo = (memo: string): boolean => {
+  return Buffer.byteLength(memo, 'utf8') <= MAX_MEMO_BYTES;
+};
+
+// Space reserved in packed transactions for the ComputeBudget instructions
+const COMPUTE_BUDGET_RESERVATION = buildComputeBudgetInstructions(1, 1);
+
+/**
+ * Build the instruction advancing the durable nonce, which has to come first in the transaction
+ */
+const buildNonceAdvanceInstructions = (options: TransactionOptions, feePayer: PublicKey): TransactionInstruction[] => {
+  if (!options.nonceAccount) {
+    return [];
+  }
+  return [SystemProgram.nonceAdvance({
+    noncePubkey: options.nonceAccount,
+    authorizedPubkey: options.nonceAuthority?.publicKey || feePayer,
+  })];
+};
+
+// Tail of the transactions sent with each nonce account, so they are sent one after another
+const nonceQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Run a task once every earlier task using the same nonce account finished
+ * Each transaction advances the nonce, so the next one can only be signed after it landed or expired
+ */
+const runWithNonceLock = <T>(nonceAccount: PublicKey | undefined, task: () => Promise<T>): Promise<T> => {
+  if (!nonceAccount) {
+    return task();
+  }
+
+  const key = nonceAccount.toString();
+  const result = (nonceQueues.get(key) || Promise.resolve()).then(task, task);
+  nonceQueues.set(key, result.catch(() => undefined));
+  return result;
+};
+
+/**
+ * Calculate the priority fee in lamports for a transaction
+ * Without an explicit limit the runtime grants DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION per instruction
+ */
+export const calculatePriorityFeeLamports = (
+  priorityFee: number,
+  computeUnitLimit: number | undefined,
+  instructionCount: number
+): number => {
+  const units = computeUnitLimit ||
+    Math.min(instructionCount * DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION, MAX_COMPUTE_UNITS_PER_TRANSACTION);
+  return Math.ceil((priorityFee * units) / 1_000_000);
+};
+
+/**
+ * Estimate the fee of one transaction, using the priority fee cap as the upper bound in auto mode
+ */
+export const estimateTransactionFeeLamports = (instructionCount: number, transactionOptions: TransactionOptions = {}): number => {
+  const { priorityFee, priorityFeeCap, computeUnitLimit } = transactionOptions;
+  const feePerComputeUnit = priorityFee === 'auto' ? (priorityFeeCap ?? DEFAULT_PRIORITY_FEE_CAP) : (priorityFee || 0);
+  return LAMPORTS_PER_SIGNATURE + calculatePriorityFeeLamports(feePerComputeUnit, computeUnitLimit, instructionCount);
+};
+
+/**
+ * Resolve the priority fee in micro-lamports per compute unit
+ * In auto mode the fee is the configured percentile of recent prioritization fees paid for
+ * the writable accounts of the instructions, limited by the cap
+ */
+export const resolvePriorityFee = async (
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  options: TransactionOptions
+): Promise<number> => {
+  const { priorityFee } = options;
+
+  if (priorityFee !== 'auto') {
+    return priorityFee || 0;
+  }
+
+  const percentile = options.priorityFeePercentile ?? DEFAULT_PRIORITY_FEE_PERCENTILE;
+  const cap = options.priorityFeeCap ?? DEFAULT_PRIORITY_FEE_CAP;
+
+  const writableAccounts = new Map<string, PublicKey>();
+  instructions.forEach(instruction => {
+    instruction.keys
+      .filter(key => key.isWritable)
+      .forEach(key => writableAccounts.set(key.pubkey.toString(), key.pubkey));
+  });
+
+  try {
+    const recentFees = await connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: Array.from(writableAccounts.values()).slice(0, MAX_PRIORITY_FEE_ACCOUNTS),
+    });
+    if (recentFees.length === 0) {
+      return 0;
+    }
+
+    const fees = recentFees.map(fee => fee.prioritizationFee).sort((a, b) => a - b);
+    const index = Math.min(fees.length - 1, Math.max(0, Math.ceil((percentile / 100) * fees.length) - 1));
+    const fee = Math.min(fees[index], cap);
+
+    logger.info(`Auto priority fee: ${fee} micro-lamports/CU (p${percentile} of ${fees.length} recent slots, cap ${cap})`);
+    return fee;
+  } catch (error) {
+    logger.warn(`Failed to fetch recent prioritization fees, sending without priority fee: ${error}`);
+    return 0;
+  }
+};
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Check whether a sent transaction can no longer be processed: its nonce advanced, or the block height
+ * passed its lastValidBlockHeight
+ */
+const isPastExpiry = async (connection: Connection, pending: PendingTransaction): Promise<boolean> => {
+  if (pending.nonceAccount) {
+    const nonceAccount = await connection.getNonce(new PublicKey(pending.nonceAccount), 'confirmed');
+    return !nonceAccount || nonceAccount.nonce !== pending.nonce;
+  }
+  if (pending.lastValidBlockHeight === undefined && pending.blockhash) {
+    return !(await connection.isBlockhashValid(pending.blockhash, { commitment: 'confirmed' })).value;
+  }
+  return (await connection.getBlockHeight('confirmed')) > (pending.lastValidBlockHeight ?? 0);
+};
+
+/**
+ * Determine whether a sent transaction landed
+ * The expiry is checked before the signature status, so a missing status together with an
+ * exceeded block height or an advanced nonce means the transaction can no longer land
+ */
+export const getTransactionLandingStatus = async (
+  connection: Connection,
+  pending: PendingTransaction
+): Promise<TransactionLanding> => {
+  const pastExpiry = await isPastExpiry(connection, pending);
+  const { value: [status] } = await connection.getSignatureStatuses([pending.signature], {
+    searchTransactionHistory: true,
+  });
+
+  if (status && (status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized')) {
+    return { status: status.err ? 'failed' : 'landed', slot: status.slot };
+  }
+
+  return { status: !status && pastExpiry ? 'expired' : 'pending' };
+};
+
+/**
+ * Wait until a sent transaction lands or its blockhash expires
+ * The optional rebroadcast callback is invoked on every check while the transaction is pending
+ */
+export const waitForTransactionLanding = async (
+  connection: Connection,
+  pending: PendingTransaction,
+  rebroadcast?: () => Promise<unknown>
+): Promise<TransactionLanding<Exclude<LandingStatus, 'pending'>>> => {
+  while (true) {
+    await sleep(REBROADCAST_INTERVAL_MS);
+
+    try {
+      const landing = await getTransactionLandingStatus(connection, pending);
+      if (landing.status !== 'pending') {
+        return landing as TransactionLanding<Exclude<LandingStatus, 'pending'>>;
+      }
+      if (rebroadcast) {
+        await rebroadcast();
+      }
+    } catch (error) {
+      // Keep tracking the transaction through transient RPC errors
+      logger.warn(`Failed to check transaction ${pending.signature}, retrying: ${error}`);
+    }
+  }
+};
+
+/**
+ * Get the blockhash to sign with: the current value of the durable nonce when one is configured,
+ * otherwise the latest blockhash, together with the expiry of transactions signed with it
+ */
+const getSigningBlockhash = async (
+  connection: Connection,
+  options: TransactionOptions
+): Promise<{ blockhash: string; expiry: Omit<PendingTransaction, 'signature'> }> => {
+  if (options.nonceAccount) {
+    const nonceAccount = await connection.getNonce(options.nonceAccount, 'confirmed');
+    if (!nonceAccount) {
+      throw new Error(`Nonce account ${options.nonceAccount.toString()} not found or not initialized`);
+    }
+    return {
+      blockhash: nonceAccount.nonce,
+      expiry: { nonceAccount: options.nonceAccount.toString(), nonce: nonceAccount.nonce },
+    };
+  }
+
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  return { blockhash, expiry: { lastValidBlockHeight } };
+};
+
+/**
+ * Broadcast a signed transaction, rebroadcasting it until it lands or expires
+ * Preflight checks run on the first broadcast unless skipPreflight is set
+ * Returns the landing slot, throws when the transaction failed on-chain or expired
+ */
+export const broadcastUntilLanded = async (
+  connection: Connection,
+  rawTransaction: Uint8Array,
+  pending: PendingTransaction,
+  skipPreflight: boolean = false
+): Promise<number | undefined> => {
+  await connection.sendRawTransaction(rawTransaction, {
+    skipPreflight,
+    preflightCommitment: 'confirmed',
+    maxRetries: 0,
+  });
+
+  const { status, slot } = await waitForTransactionLanding(connection, pending, () =>
+    connection.sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 })
+  );
+
+  if (status === 'failed') {
+    throw new Error(`Transaction ${pending.signature} failed on-chain`);
+  }
+  if (status === 'expired') {
+    throw pending.nonceAccount
+      ? new TransactionExpiredNonceInvalidError(pending.signature)
+      : new TransactionExpiredBlockheightExceededError(pending.signature);
+  }
+
+  return slot;
+};
+
+/**
+ * Sign and broadcast a transaction, rebroadcasting it until it lands or its blockhash expires
+ * The signature and expiry are reported through onSigned before the first broadcast,
+ * so an interrupted run can later find out whether the transaction landed
+ */
+const sendWithRebroadcast = async (
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  feePayer: PublicKey,
+  signers: Signer[],
+  options: TransactionOptions
+): Promise<{ signature: string; slot?: number }> => {
+  const { blockhash, expiry } = await getSigningBlockhash(connection, options);
+  const message = compileMessage(instructions, feePayer, blockhash, getMessageLookupTables(options));
+  const transaction = new VersionedTransaction(message);
+  const coSigners = [options.nonceAuthority, options.feePayer].filter((signer): signer is Signer => !!signer);
+  const allSigners = [...signers];
+  coSigners.forEach(coSigner => {
+    if (!allSigners.some(signer => signer.publicKey.equals(coSigner.publicKey))) {
+      allSigners.push(coSigner);
+    }
+  });
+  transaction.sign(allSigners);
+
+  const signature = bs58.encode(transaction.signatures[0]);
+  const pending: PendingTransaction = { signature, ...expiry };
+  if (options.onSigned) {
+    options.onSigned(pending);
+  }
+
+  // Preflight checks run on the first broadcast unless the transaction was already simulated
+  const slot = await broadcastUntilLanded(connection, transaction.serialize(), pending, !!options.simulate);
+  return { signature, slot };
+};
+
+/**
+ * Simulate the instructions and return the compute units they consumed
+ * The nonce advance is included when a nonce account is configured
+ * Throws when the simulation fails, so a transaction that would fail is never sent and pays no fee
+ */
+export const simulateComputeUnits = async (
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  feePayer: PublicKey,
+  priorityFee: number,
+  options: TransactionOptions
+): Promise<number> => {
+  const message = compileMessage(
+    [
+      ...buildNonceAdvanceInstructions(options, feePayer),
+      ...buildComputeBudgetInstructions(priorityFee, MAX_COMPUTE_UNITS_PER_TRANSACTION),
+      ...instructions,
+    ],
+    feePayer,
+    PLACEHOLDER_BLOCKHASH,
+    getMessageLookupTables(options)
+  );
+
+  const simulation = await connection.simulateTransaction(new VersionedTransaction(message), {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+  });
+  const { err, logs, unitsConsumed } = simulation.value;
+
+  if (options.logIdentifier) {
+    logImportant(options.logIdentifier, err ? 'Transaction simulation failed' : `Transaction simulated: ${unitsConsumed} compute units`, {
+      type: 'SIMULATION',
+      unitsConsumed,
+      error: err,
+      logs,
+    });
+  }
+
+  if (err) {
+    throw new Error(`Transaction simulation failed: ${JSON.stringify(err)}${logs ? `\n${logs.join('\n')}` : ''}`);
+  }
+
+  return unitsConsumed || 0;
+};
+
+/**
+ * Size the compute unit limit from simulated consumption plus the configured margin
+ */
+const getSimulatedComputeUnitLimit = (unitsConsumed: number, margin: number = DEFAULT_COMPUTE_UNIT_MARGIN): number => {
+  return Math.min(Math.ceil(unitsConsumed * (1 + margin / 100)), MAX_COMPUTE_UNITS_PER_TRANSACTION);
+};
+
+// Interface for a transaction with its nonce advance and ComputeBudget instructions, ready to be signed
+export interface PreparedTransaction extends TransactionFeeInfo {
+  instructions: TransactionInstruction[];
+  feePayer: PublicKey;
+}
+
+// Interface for a transaction built to be signed elsewhere
+export interface UnsignedTransaction extends TransactionFeeInfo {
+  transaction: VersionedTransaction;
+  signers: string[];                              // Addresses whose signatures are required
+  expiry: Omit<PendingTransaction, 'signature'>;  // Durable nonce or blockhash validity it was built with
+}
+
+/**
+ * Add the configured nonce advance and ComputeBudget instructions to a transaction and work out its fees
+ * With simulate enabled the transaction is simulated first and, unless an explicit limit is given,
+ * its compute unit limit is set from the simulation
+ */
+export const prepareTransaction = async (
+  connection: Connection,
+  transaction: Transaction,
+  feePayer: PublicKey,
+  options: TransactionOptions = {}
+): Promise<PreparedTransaction> => {
+  const nonceInstructions = buildNonceAdvanceInstructions(options, feePayer);
+  const priorityFee = await resolvePriorityFee(connection, [...nonceInstructions, ...transaction.instructions], options);
+  let { computeUnitLimit } = options;
+
+  if (options.simulate) {
+    const unitsConsumed = await simulateComputeUnits(connection, transaction.instructions, feePayer, priorityFee, options);
+    if (!computeUnitLimit) {
+      computeUnitLimit = getSimulatedComputeUnitLimit(unitsConsumed, options.computeUnitMargin);
+    }
+  }
+
+  // The nonce advance stays the first instruction, ahead of the ComputeBudget instructions
+  const instructions = [...nonceInstructions, ...buildComputeBudgetInstructions(priorityFee, computeUnitLimit), ...transaction.instructions];
+  const signatureCount = compileMessage(instructions, feePayer, PLACEHOLDER_BLOCKHASH, getMessageLookupTables(options))
+    .header.numRequiredSignatures;
+  const feeLamports = signatureCount * LAMPORTS_PER_SIGNATURE +
+    calculatePriorityFeeLamports(priorityFee, computeUnitLimit, nonceInstructions.length + transaction.instructions.length);
+
+  return { instructions, feePayer, priorityFee, computeUnitLimit, feeLamports };
+};
+
+/**
+ * Send a transaction with the configured ComputeBudget instructions and wait until it lands,
+ * rebroadcasting it until its blockhash expires
+ * The instructions are sent as a v0 transaction when versioned is set or lookup tables are given,
+ * and with a durable nonce in place of a recent blockhash when a nonce account is given
+ * Returns the signature and landing slot together with the fees paid
+ */
+export const sendTransaction = async (
+  connection: Connection,
+  transaction: Transaction,
+  signers: Signer[],
+  options: TransactionOptions = {}
+): Promise<SendTransactionResult> => {
+  const { instructions, feePayer, priorityFee, computeUnitLimit, feeLamports } =
+    await prepareTransaction(connection, transaction, options.feePayer?.publicKey || transaction.feePayer || signers[0].publicKey, options);
+
+  const { signature, slot } = await runWithNonceLock(options.nonceAccount, () =>
+    sendWithRebroadcast(connection, instructions, feePayer, signers, options)
+  );
+
+  return {
+    signature,
+    slot,
+    priorityFee,
+    computeUnitLimit,
+    feeLamports,
+  };
+};
+
+/**
+ * Build a transaction without signing it, so it can be signed elsewhere and broadcast later
+ * It uses the current value of the durable nonce when one is configured, otherwise the latest blockhash
+ */
+export const buildUnsignedTransaction = async (
+  connection: Connection,
+  transaction: Transaction,
+  feePayer: PublicKey,
+  options: TransactionOptions = {}
+): Promise<UnsignedTransaction> => {
+  const { instructions, priorityFee, computeUnitLimit, feeLamports } =
+    await prepareTransaction(connection, transaction, feePayer, options);
+  const { blockhash, expiry } = await getSigningBlockhash(connection, options);
+  const message = compileMessage(instructions, feePayer, blockhash, getMessageLookupTables(options));
+
+  return {
+    transaction: new VersionedTransaction(message),
+    signers: message.staticAccountKeys.slice(0, message.header.numRequiredSignatures).map(key => key.toString()),
+    expiry,
+    priorityFee,
+    computeUnitLimit,
+    feeLamports,
+  };
+};
+
+// Interface for a group of items packed into one transaction
+export interface PackedTransaction<T> {
+  items: T[];
+  instructions: TransactionInstruction[];
+}
+
+/**
+ * Check whether the given instructions fit into one transaction of packInstructions,
+ * next to the ComputeBudget and nonce advance instructions it leaves room for
+ */
+export const fitsInPackedTransaction = (
+  instructions: TransactionInstruction[],
+  feePayer: PublicKey,
+  transactionOptions: TransactionOptions = {}
+): boolean => {
+  const reservation = [...buildNonceAdvanceInstructions(transactionOptions, feePayer), ...COMPUTE_BUDGET_RESERVATION];
+  return fitsInTransaction([...reservation, ...instructions], feePayer, getMessageLookupTables(transactionOptions));
+};
+
+/**
+ * Pack items into as few transactions as possible
+ * Each transaction holds at most maxItems items and never exceeds the packet size limit,
+ * leaving room for the ComputeBudget instructions added by sendTransaction
+ * When estimateComputeUnits is given, the estimated compute units of a transaction are also
+ * kept within MAX_COMPUTE_UNITS_PER_TRANSACTION
+ * The transactions are sized for the given transaction options: as v0 transactions loading accounts
+ * from their lookup tables, and with room for the nonce advance of a durable nonce
+ */
+export const packInstructions = <T>(
+  items: T[],
+  buildInstructions: (item: T) => TransactionInstruction[],
+  feePayer: PublicKey,
+  maxItems: number,
+  estimateComputeUnits?: (item: T) => number,
+  transactionOptions: TransactionOptions = {}
+): PackedTransaction<T>[] => {
+  const lookupTables = getMessageLookupTables(transactionOptions);
+  const reservation = [...buildNonceAdvanceInstructions(transactionOptions, feePayer), ...COMPUTE_BUDGET_RESERVATION];
+  const packed: PackedTransaction<T>[] = [];
+  let current: PackedTransaction<T> = { items: [], instructions: [] };
+  let currentComputeUnits = 0;
+
+  for (const item of items) {
+    const itemInstructions = buildInstructions(item);
+    const itemComputeUnits = estimateComputeUnits ? estimateComputeUnits(item) : 0;
+
+    if (current.items.length > 0) {
+      const candidate = [...current.instructions, ...itemInstructions];
+      if (
+        current.items.length < maxItems &&
+        currentComputeUnits + itemComputeUnits <= MAX_COMPUTE_UNITS_PER_TRANSACTION &&
+        fitsInTransaction([...reservation, ...candidate], feePayer, lookupTables)
+      ) {
+        current.items.push(item);
+        current.instructions = candidate;
+        currentComputeUnits += itemComputeUnits;
+        continue;
+      }
+      packed.push(current);
+    }
+
+    // Start a new transaction with this item
+    if (!fitsInPackedTransaction(itemInstructions, feePayer, transactionOptions)) {
+      throw new Error(`Instructions for a single item exceed the transaction size limit of ${PACKET_DATA_SIZE} bytes`);
+    }
+    current = { items: [item], instructions: itemInstructions };
+    currentComputeUnits = itemComputeUnits;
+  }
+
+  if (current.items.length > 0) {
+    packed.push(current);
+  }
+
+  return packed;
+};
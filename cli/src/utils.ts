@@ -97,9 +97,12 @@ export const getProgressFileName = (filePath: string): string => {
 };
 
 // Save progress to a JSON file
+// Writes to a temporary file first and renames it, so a crash never leaves a partially written file
 export const saveProgress = <T>(progressFile: string, data: T): void => {
   try {
-    fs.writeFileSync(progressFile, JSON.stringify(data, null, 2));
+    const tempFile = `${progressFile}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(data, null, 2));
+    fs.renameSync(tempFile, progressFile);
     logger.info(`Progress saved to ${progressFile}`);
   } catch (error) {
     logger.error(`Failed to save progress: ${error}`);